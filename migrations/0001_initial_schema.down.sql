@@ -0,0 +1,13 @@
+-- 0001_initial_schema.down.sql
+-- Children first so foreign keys never point at a dropped table
+
+DROP TABLE IF EXISTS company_urls;
+DROP TABLE IF EXISTS stock_prices;
+DROP TABLE IF EXISTS valuation_metrics;
+DROP TABLE IF EXISTS production;
+DROP TABLE IF EXISTS mineral_estimates;
+DROP TABLE IF EXISTS costs;
+DROP TABLE IF EXISTS capital_structure;
+DROP TABLE IF EXISTS financials;
+DROP TABLE IF EXISTS exchange_rates;
+DROP TABLE IF EXISTS companies;
@@ -0,0 +1,187 @@
+-- 0001_initial_schema.up.sql
+-- Schema for the analysis database (mining_companies.db locally, same tables in Supabase).
+-- Column names and types mirror exported_csvs/ and src/types/index.ts.
+-- Written in the SQL subset SQLite and Postgres both accept:
+--   DOUBLE PRECISION -> REAL affinity in SQLite, TIMESTAMPTZ/DATE/JSONB stay text in SQLite.
+
+CREATE TABLE IF NOT EXISTS companies (
+  company_id           INTEGER PRIMARY KEY,
+  tsx_code             TEXT NOT NULL,
+  company_name         TEXT NOT NULL,
+  name_alt             TEXT,
+  status               TEXT,
+  headquarters         TEXT,
+  minerals_of_interest TEXT,
+  percent_gold         DOUBLE PRECISION,
+  percent_silver       DOUBLE PRECISION,
+  description          TEXT,
+  last_updated         TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS financials (
+  financial_id                    INTEGER PRIMARY KEY,
+  company_id                      INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  cash_value                      DOUBLE PRECISION,
+  cash_currency                   TEXT,
+  cash_date                       TIMESTAMPTZ,
+  investments_json                JSONB,
+  hedgebook                       TEXT,
+  liabilities                     DOUBLE PRECISION,
+  liabilities_currency            TEXT,
+  other_financial_assets          DOUBLE PRECISION,
+  other_financial_assets_currency TEXT,
+  market_cap_value                DOUBLE PRECISION,
+  market_cap_currency             TEXT,
+  enterprise_value_value          DOUBLE PRECISION,
+  enterprise_value_currency       TEXT,
+  net_financial_assets            DOUBLE PRECISION,
+  net_financial_assets_currency   TEXT,
+  trailing_pe                     DOUBLE PRECISION,
+  forward_pe                      DOUBLE PRECISION,
+  peg_ratio                       DOUBLE PRECISION,
+  price_to_sales                  DOUBLE PRECISION,
+  price_to_book                   DOUBLE PRECISION,
+  enterprise_to_revenue           DOUBLE PRECISION,
+  enterprise_to_ebitda            DOUBLE PRECISION,
+  revenue_value                   DOUBLE PRECISION,
+  revenue_currency                TEXT,
+  cost_of_revenue                 DOUBLE PRECISION,
+  gross_profit                    DOUBLE PRECISION,
+  operating_expense               DOUBLE PRECISION,
+  operating_income                DOUBLE PRECISION,
+  net_income_value                DOUBLE PRECISION,
+  net_income_currency             TEXT,
+  ebitda                          DOUBLE PRECISION,
+  debt_value                      DOUBLE PRECISION,
+  debt_currency                   TEXT,
+  last_updated                    TIMESTAMPTZ,
+  data_source                     TEXT,
+  shares_outstanding              DOUBLE PRECISION,
+  free_cash_flow                  DOUBLE PRECISION
+);
+
+CREATE TABLE IF NOT EXISTS capital_structure (
+  capital_id               INTEGER PRIMARY KEY,
+  company_id               INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  existing_shares          DOUBLE PRECISION,
+  fully_diluted_shares     DOUBLE PRECISION,
+  in_the_money_options     DOUBLE PRECISION,
+  options_revenue          DOUBLE PRECISION,
+  options_revenue_currency TEXT,
+  last_updated             TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS costs (
+  cost_id                     INTEGER PRIMARY KEY,
+  company_id                  INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  construction_costs          DOUBLE PRECISION,
+  construction_costs_currency TEXT,
+  aisc_last_quarter           DOUBLE PRECISION,
+  aisc_last_quarter_currency  TEXT,
+  aisc_last_year              DOUBLE PRECISION,
+  aisc_last_year_currency     TEXT,
+  aisc_future                 DOUBLE PRECISION,
+  aisc_future_currency        TEXT,
+  aic_last_quarter            DOUBLE PRECISION,
+  aic_last_quarter_currency   TEXT,
+  aic_last_year               DOUBLE PRECISION,
+  aic_last_year_currency      TEXT,
+  tco_current                 DOUBLE PRECISION,
+  tco_current_currency        TEXT,
+  tco_future                  DOUBLE PRECISION,
+  tco_future_currency         TEXT,
+  last_updated                TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS mineral_estimates (
+  estimate_id                              INTEGER PRIMARY KEY,
+  company_id                               INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  reserves_precious_aueq_moz               DOUBLE PRECISION,
+  measured_indicated_precious_aueq_moz     DOUBLE PRECISION,
+  resources_precious_aueq_moz              DOUBLE PRECISION,
+  potential_precious_aueq_moz              DOUBLE PRECISION,
+  mineable_precious_aueq_moz               DOUBLE PRECISION,
+  reserves_non_precious_aueq_moz           DOUBLE PRECISION,
+  measured_indicated_non_precious_aueq_moz DOUBLE PRECISION,
+  resources_non_precious_aueq_moz          DOUBLE PRECISION,
+  potential_non_precious_aueq_moz          DOUBLE PRECISION,
+  mineable_non_precious_aueq_moz           DOUBLE PRECISION,
+  reserves_total_aueq_moz                  DOUBLE PRECISION,
+  measured_indicated_total_aueq_moz        DOUBLE PRECISION,
+  resources_total_aueq_moz                 DOUBLE PRECISION,
+  potential_total_aueq_moz                 DOUBLE PRECISION,
+  mineable_total_aueq_moz                  DOUBLE PRECISION,
+  last_updated                             TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS production (
+  production_id                            INTEGER PRIMARY KEY,
+  company_id                               INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  current_production_precious_aueq_koz     DOUBLE PRECISION,
+  current_production_non_precious_aueq_koz DOUBLE PRECISION,
+  current_production_total_aueq_koz        DOUBLE PRECISION,
+  future_production_total_aueq_koz         DOUBLE PRECISION,
+  reserve_life_years                       DOUBLE PRECISION,
+  last_updated                             TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS valuation_metrics (
+  valuation_id                     INTEGER PRIMARY KEY,
+  company_id                       INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  mkt_cap_per_reserve_oz_precious  DOUBLE PRECISION,
+  mkt_cap_per_mi_oz_precious       DOUBLE PRECISION,
+  mkt_cap_per_resource_oz_precious DOUBLE PRECISION,
+  mkt_cap_per_mineable_oz_precious DOUBLE PRECISION,
+  mkt_cap_per_reserve_oz_all       DOUBLE PRECISION,
+  mkt_cap_per_mi_oz_all            DOUBLE PRECISION,
+  mkt_cap_per_resource_oz_all      DOUBLE PRECISION,
+  mkt_cap_per_mineable_oz_all      DOUBLE PRECISION,
+  ev_per_reserve_oz_precious       DOUBLE PRECISION,
+  ev_per_mi_oz_precious            DOUBLE PRECISION,
+  ev_per_resource_oz_precious      DOUBLE PRECISION,
+  ev_per_mineable_oz_precious      DOUBLE PRECISION,
+  ev_per_reserve_oz_all            DOUBLE PRECISION,
+  ev_per_mi_oz_all                 DOUBLE PRECISION,
+  ev_per_resource_oz_all           DOUBLE PRECISION,
+  ev_per_mineable_oz_all           DOUBLE PRECISION,
+  mkt_cap_per_production_oz        DOUBLE PRECISION,
+  ev_per_production_oz             DOUBLE PRECISION,
+  last_updated                     TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS stock_prices (
+  price_id           INTEGER PRIMARY KEY,
+  company_id         INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  price_date         DATE NOT NULL,
+  price_value        DOUBLE PRECISION,
+  price_currency     TEXT,
+  change_1yr_percent DOUBLE PRECISION,
+  last_updated       TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS company_urls (
+  url_id         INTEGER PRIMARY KEY,
+  company_id     INTEGER NOT NULL REFERENCES companies (company_id) ON DELETE CASCADE,
+  url_type       TEXT,
+  url            TEXT NOT NULL,
+  last_validated TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  rate_id       INTEGER PRIMARY KEY,
+  from_currency TEXT NOT NULL,
+  to_currency   TEXT NOT NULL,
+  rate          DOUBLE PRECISION NOT NULL,
+  fetch_date    TIMESTAMPTZ NOT NULL
+);
+
+-- Lookups by company are the common access path
+CREATE INDEX IF NOT EXISTS idx_financials_company ON financials (company_id);
+CREATE INDEX IF NOT EXISTS idx_capital_structure_company ON capital_structure (company_id);
+CREATE INDEX IF NOT EXISTS idx_costs_company ON costs (company_id);
+CREATE INDEX IF NOT EXISTS idx_mineral_estimates_company ON mineral_estimates (company_id);
+CREATE INDEX IF NOT EXISTS idx_production_company ON production (company_id);
+CREATE INDEX IF NOT EXISTS idx_valuation_metrics_company ON valuation_metrics (company_id);
+CREATE INDEX IF NOT EXISTS idx_stock_prices_company_date ON stock_prices (company_id, price_date);
+CREATE INDEX IF NOT EXISTS idx_company_urls_company ON company_urls (company_id);
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair ON exchange_rates (from_currency, to_currency, fetch_date);
@@ -0,0 +1,47 @@
+// scripts/load-db.ts
+// Builds mining_companies.db from exported_csvs/ and reports rejected rows.
+//
+//   npm run db:load
+//   npm run db:load -- --csv-dir exported_csvs --db mining_companies.db --report load-report.json
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { loadDatabaseFromCsv } from '@/lib/db/loader';
+import { getDatabasePath } from '@/lib/db/sqlite';
+import { getLocalDataDir } from '@/lib/data/local-repository';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const csvDir = readFlag('csv-dir') ? path.resolve(readFlag('csv-dir')!) : getLocalDataDir();
+  const dbFile = readFlag('db') ? path.resolve(readFlag('db')!) : getDatabasePath();
+  const reportFile = readFlag('report');
+
+  console.log(`Loading ${csvDir} -> ${dbFile}`);
+  const reports = await loadDatabaseFromCsv({ csvDir, dbFile });
+
+  console.table(reports.map((r) => ({
+    table: r.table,
+    read: r.read,
+    loaded: r.loaded,
+    rejected: r.rejected.length,
+    'fields nulled': r.warnings.length,
+  })));
+
+  const rejected = reports.flatMap((r) => r.rejected);
+  for (const row of rejected) {
+    console.log(`REJECTED ${row.table}.csv line ${row.line} (id ${row.rowId ?? '?'}): ${row.reason}`);
+  }
+
+  if (reportFile) {
+    await writeFile(reportFile, JSON.stringify(reports, null, 2));
+    console.log(`Full report (including nulled fields) written to ${reportFile}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+// scripts/migrate.ts
+// Schema migrations for the local SQLite file or a Postgres/Supabase database.
+//
+//   npm run db:migrate -- status
+//   npm run db:migrate -- up [--to 3]
+//   npm run db:migrate -- down [--steps 2]
+//   npm run db:migrate -- create add_mineable_ratios
+//
+// Target: SQLite (LOCAL_DB_PATH or mining_companies.db) by default; pass
+// --target postgres to use DATABASE_URL (or --url <connection string>).
+import path from 'path';
+import { createPostgresDriver, createSqliteDriver, type MigrationDriver } from '@/lib/db/drivers';
+import { createMigration, getMigrationStatus, migrateDown, migrateUp, readMigrations } from '@/lib/db/migrations';
+import { getDatabasePath } from '@/lib/db/sqlite';
+
+function readFlag(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function readNumberFlag(name: string): number | undefined {
+  const value = readFlag(name);
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`--${name} expects a whole number, got "${value}"`);
+  return n;
+}
+
+async function openDriver(): Promise<MigrationDriver> {
+  const target = readFlag('target') ?? 'sqlite';
+  if (target === 'postgres') {
+    const url = readFlag('url') ?? process.env.DATABASE_URL;
+    if (!url) throw new Error('Postgres target needs DATABASE_URL or --url');
+    return createPostgresDriver(url);
+  }
+  if (target !== 'sqlite') throw new Error(`Unknown --target "${target}". Use sqlite or postgres.`);
+  return createSqliteDriver(readFlag('db') ? path.resolve(readFlag('db')!) : getDatabasePath());
+}
+
+async function main() {
+  const command = process.argv[2] ?? 'status';
+
+  if (command === 'create') {
+    const name = process.argv[3];
+    if (!name || name.startsWith('--')) throw new Error('Usage: npm run db:migrate -- create <name>');
+    const files = await createMigration(name);
+    console.log(`Created migrations/${files[0]} and migrations/${files[1]}`);
+    return;
+  }
+
+  const migrations = await readMigrations();
+  const driver = await openDriver();
+  try {
+    switch (command) {
+      case 'status': {
+        const statuses = await getMigrationStatus(driver, migrations);
+        console.table(statuses.map((s) => ({ version: s.version, name: s.name, state: s.state, applied_at: s.appliedAt ?? '' })));
+        break;
+      }
+      case 'up': {
+        const applied = await migrateUp(driver, migrations, { to: readNumberFlag('to') });
+        console.log(applied.length ? applied.map((m) => `Applied ${m.version}_${m.name}`).join('\n') : 'Nothing to apply.');
+        break;
+      }
+      case 'down': {
+        const reverted = await migrateDown(driver, migrations, { steps: readNumberFlag('steps') });
+        console.log(reverted.length ? reverted.map((m) => `Reverted ${m.version}_${m.name}`).join('\n') : 'Nothing to roll back.');
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}". Use status, up, down or create.`);
+    }
+  } finally {
+    await driver.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
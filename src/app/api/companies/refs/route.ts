@@ -0,0 +1,17 @@
+// src/app/api/companies/refs/route.ts
+// GET /api/companies/refs - id, name and ticker of every company, ordered by name.
+// For pickers: reads only the companies table, unlike /api/companies which builds full CompanyData.
+import { NextResponse } from 'next/server';
+import { getCompanyRepository } from '@/lib/data/repository';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const data = await getCompanyRepository().listCompanyRefs();
+    return NextResponse.json({ data });
+  } catch (err: unknown) {
+    console.error('GET /api/companies/refs failed:', err);
+    return NextResponse.json({ error: 'Failed to load company list' }, { status: 500 });
+  }
+}
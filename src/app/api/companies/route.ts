@@ -0,0 +1,39 @@
+// src/app/api/companies/route.ts
+// GET /api/companies - filtered, sorted, projected and paginated CompanyData.
+// Query syntax is documented in src/lib/company-query.ts.
+import { NextRequest, NextResponse } from 'next/server';
+import { getCompanyRepository } from '@/lib/data/repository';
+import { parseCompanyQuery, QueryError, runCompanyQuery } from '@/lib/company-query';
+import { availableCurrencies, buildRateTable, normalizeCompanyCurrency } from '@/lib/currency';
+import { applyDerivedValuations } from '@/lib/derived-metrics';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Parse first so a bad query fails fast without touching the data source
+    const query = parseCompanyQuery(request.nextUrl.searchParams);
+    const repository = getCompanyRepository();
+    let { companies } = await repository.listCompanies({ asOf: query.asOf });
+
+    // Convert before filtering/sorting so comparisons across companies are like for like.
+    // Valuation ratios can only be recomputed once everything shares one currency.
+    if (query.currency) {
+      const rates = buildRateTable(await repository.listExchangeRates());
+      if (!availableCurrencies(rates).includes(query.currency)) {
+        throw new QueryError(`No exchange rate on file for ${query.currency}`);
+      }
+      companies = companies.map((company) =>
+        applyDerivedValuations(normalizeCompanyCurrency(company, query.currency!, rates))
+      );
+    }
+
+    return NextResponse.json(runCompanyQuery(companies, query));
+  } catch (err: unknown) {
+    if (err instanceof QueryError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error('GET /api/companies failed:', err);
+    return NextResponse.json({ error: 'Failed to load company data' }, { status: 500 });
+  }
+}
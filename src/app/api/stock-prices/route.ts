@@ -0,0 +1,28 @@
+// src/app/api/stock-prices/route.ts
+// GET /api/stock-prices?companies=12,34 - stock_prices rows (validated, in their own
+// currency) for up to MAX_COMPANIES companies. Read through the client cache in src/lib/price-store.ts.
+import { NextRequest, NextResponse } from 'next/server';
+import { getCompanyRepository } from '@/lib/data/repository';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_COMPANIES = 100; // Matches the store's batch size
+
+export async function GET(request: NextRequest) {
+  const param = request.nextUrl.searchParams.get('companies') ?? '';
+  const ids = [...new Set(param.split(',').filter(Boolean).map(Number))];
+  if (ids.length === 0 || ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    return NextResponse.json({ error: 'companies must be a comma-separated list of company ids' }, { status: 400 });
+  }
+  if (ids.length > MAX_COMPANIES) {
+    return NextResponse.json({ error: `At most ${MAX_COMPANIES} companies per request` }, { status: 400 });
+  }
+
+  try {
+    const data = await getCompanyRepository().listStockPrices(ids);
+    return NextResponse.json({ data });
+  } catch (err: unknown) {
+    console.error('GET /api/stock-prices failed:', err);
+    return NextResponse.json({ error: 'Failed to load stock prices' }, { status: 500 });
+  }
+}
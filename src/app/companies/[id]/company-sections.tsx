@@ -0,0 +1,84 @@
+// src/app/companies/[id]/company-sections.tsx
+'use client';
+
+// The detail page's field tables, in the reporting currency chosen in the Navbar. The company
+// goes through the same conversion as the companies table (normalize, then recompute the
+// valuation ratios), so the figures match it; converted values are marked like in the table.
+import React, { useMemo } from 'react';
+import { History } from 'lucide-react';
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCurrency } from '@/contexts/currency-context';
+import { buildCompanyDetails } from '@/lib/company-details';
+import { buildRateTable, describeConversion, normalizeCompanyCurrency } from '@/lib/currency';
+import { applyDerivedValuations } from '@/lib/derived-metrics';
+import type { CompanyData, ExchangeRate } from '@/types';
+
+const formatDate = (timestamp: string | null) => (timestamp ? timestamp.slice(0, 10) : 'undated');
+
+interface CompanySectionsProps {
+  company: CompanyData; // As loaded, in the reported currencies
+  exchangeRates: ExchangeRate[];
+}
+
+export function CompanySections({ company, exchangeRates }: CompanySectionsProps) {
+  const { currency } = useCurrency();
+  const rateTable = useMemo(() => buildRateTable(exchangeRates), [exchangeRates]);
+  const sections = useMemo(
+    () => buildCompanyDetails(applyDerivedValuations(normalizeCompanyCurrency(company, currency, rateTable))),
+    [company, currency, rateTable]
+  );
+
+  return (
+    <>
+      <p className="text-xs text-muted-foreground">
+        Monetary values in {currency}. <span className="text-amber-600">*</span> converted from the reported currency
+        (hover for the rate used); n/a means no exchange rate was available or no currency was recorded.
+        Valuation ratios are recomputed from current figures.
+      </p>
+      {sections.map((section) => (
+        <section key={section.group}>
+          <div className="flex flex-wrap items-baseline gap-x-3 mb-2">
+            <h2 className="text-lg font-semibold">{section.label}</h2>
+            <span className="text-xs text-muted-foreground">{section.summary}</span>
+            {section.versions && (
+              <span className="inline-flex items-center text-xs text-amber-700">
+                <History className="mr-1 h-3 w-3" />
+                {section.versions.versions} versions on file
+                {section.versions.newer > 0 && `, ${section.versions.newer} newer than shown`}
+              </span>
+            )}
+          </div>
+          {section.fields.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-1/3">Field</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Updated</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {section.fields.map((field) => (
+                  <TableRow key={field.field} className={field.value === '-' || field.value === 'n/a' ? 'text-muted-foreground' : undefined}>
+                    <TableCell title={field.description ?? undefined}>{field.label}</TableCell>
+                    <TableCell
+                      className="text-right tabular-nums whitespace-normal break-words"
+                      title={field.conversion ? describeConversion(field.conversion) : undefined}
+                    >
+                      {field.value}
+                      {field.conversion && field.conversion.rate !== null && <sup className="ml-0.5 text-amber-600">*</sup>}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">{field.source}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{formatDate(field.updated)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,148 @@
+// src/app/companies/[id]/page.tsx
+// Server component: every field held for one company, grouped by table, with the
+// column each figure comes from and the date its record was last updated. Money is shown in
+// the reporting currency picked in the Navbar, like the companies table.
+// ?asOf=YYYY-MM-DD shows the records as they stood then, like the companies table.
+
+import React from 'react';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ArrowLeft, ExternalLink, Terminal } from 'lucide-react';
+import { getCompanyRepository } from '@/lib/data/repository';
+import { parseAsOf } from '@/lib/company-data';
+import { distinctUrls } from '@/lib/company-details';
+import { formatMetricValue, getMetricByKey } from '@/lib/metrics';
+import type { CompanyData, ExchangeRate, StockPrice } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { PriceChart } from './price-chart'; // Client chart over stock_prices
+import { CompanySections } from './company-sections'; // Client field tables in the reporting currency
+
+export const dynamic = 'force-dynamic';
+
+const URL_TYPE_LABELS: Record<string, string> = {
+  website: 'Website',
+  yahoo_finance: 'Yahoo Finance',
+};
+
+const formatDate = (timestamp: string | null) => (timestamp ? timestamp.slice(0, 10) : 'undated');
+
+interface CompanyPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ asOf?: string | string[] }>;
+}
+
+// Gold/silver share of the company, as a bar plus the figures
+function MetalSplit({ company }: { company: CompanyData }) {
+  const gold = company.percent_gold ?? 0;
+  const silver = company.percent_silver ?? 0;
+  if (company.percent_gold === null && company.percent_silver === null) return null;
+  const format = (key: string, value: number | null) => formatMetricValue(value, getMetricByKey(key)!.format, '');
+  return (
+    <div className="space-y-1 max-w-md">
+      <div className="flex h-2 overflow-hidden rounded bg-muted">
+        <div className="bg-amber-400" style={{ width: `${Math.min(100, gold)}%` }} />
+        <div className="bg-slate-400" style={{ width: `${Math.min(100 - Math.min(100, gold), silver)}%` }} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Gold {format('percent_gold', company.percent_gold)} · Silver {format('percent_silver', company.percent_silver)}
+        {gold + silver < 100 && ` · Other ${formatMetricValue(100 - gold - silver, 'percent', '')}`}
+      </p>
+    </div>
+  );
+}
+
+export default async function CompanyPage({ params, searchParams }: CompanyPageProps) {
+  const [{ id }, { asOf: asOfParam }] = await Promise.all([params, searchParams]);
+  const companyId = Number(id);
+  if (!Number.isInteger(companyId) || companyId <= 0) notFound();
+  const asOfDate = typeof asOfParam === 'string' ? asOfParam : '';
+  const asOf = asOfDate ? parseAsOf(asOfDate) : null;
+
+  let company: CompanyData | null = null;
+  let prices: StockPrice[] = [];
+  let exchangeRates: ExchangeRate[] = [];
+  let error: string | null = null;
+  try {
+    const repository = getCompanyRepository();
+    [company, prices, exchangeRates] = await Promise.all([
+      repository.getCompany(companyId, { asOf }),
+      repository.listStockPrices([companyId]),
+      repository.listExchangeRates(),
+    ]);
+  } catch (err: unknown) {
+    console.error(`Error fetching company ${companyId}:`, err);
+    error = `Failed to load company data. ${err instanceof Error ? err.message : 'Unknown error'}. See server logs.`;
+  }
+  if (!error && !company) notFound();
+
+  const backHref = asOf ? `/companies?asOf=${asOfDate}` : '/companies';
+
+  return (
+    <div className="w-full p-4 md:p-6 space-y-6">
+      <Link href={backHref} className="inline-flex items-center text-sm text-blue-600 hover:underline">
+        <ArrowLeft className="mr-1 h-4 w-4" /> All companies
+      </Link>
+
+      {error || !company ? (
+        <Alert variant="destructive">
+          <Terminal className="h-4 w-4" />
+          <AlertTitle>Error Loading Data</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <header className="space-y-2">
+            <div className="flex flex-wrap items-center gap-3">
+              <h1 className="text-2xl md:text-3xl font-bold">{company.company_name}</h1>
+              <span className="uppercase text-muted-foreground">{company.tsx_code}</span>
+              {company.status && <Badge variant="secondary" className="capitalize">{company.status}</Badge>}
+            </div>
+            {company.name_alt && <p className="text-sm text-muted-foreground">{company.name_alt}</p>}
+            <p className="text-sm">
+              {[company.headquarters, company.minerals_of_interest && `Minerals: ${company.minerals_of_interest}`]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+            <MetalSplit company={company} />
+            {company.description && <p className="max-w-3xl text-sm leading-relaxed">{company.description}</p>}
+            {asOf && <p className="text-xs text-muted-foreground">Records as they stood on {asOfDate}.</p>}
+          </header>
+
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Share Price</h2>
+            <PriceChart
+              company={{ company_id: company.company_id, company_name: company.company_name, tsx_code: company.tsx_code }}
+              prices={prices}
+              exchangeRates={exchangeRates}
+              asOf={asOf ? asOfDate : null}
+            />
+          </section>
+
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Links</h2>
+            {company.company_urls.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No links on file.</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {distinctUrls(company.company_urls).map((url) => (
+                  <li key={url.url_id} className="flex flex-wrap items-center gap-2">
+                    <span className="w-28 text-muted-foreground">{URL_TYPE_LABELS[url.url_type ?? ''] ?? url.url_type ?? 'Link'}</span>
+                    <a href={url.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-blue-600 hover:underline">
+                      {url.url} <ExternalLink className="ml-1 h-3 w-3" />
+                    </a>
+                    <span className="text-xs text-muted-foreground">
+                      company_urls, validated {formatDate(url.last_validated)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <CompanySections company={company} exchangeRates={exchangeRates} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+// src/app/companies/[id]/price-chart.tsx
+'use client';
+
+// Share price chart on the company detail page (and the comparison view): daily closes from
+// stock_prices with range presets, the reporting currency toggle and line or area display.
+// Up to maxPeers peer companies can be overlaid; with peers every series is rebased to 100
+// at the start of the range.
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  ChartOptions,
+  Filler,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { Plus, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useCurrency } from '@/contexts/currency-context';
+import { buildRateTable, REPORTING_CURRENCIES } from '@/lib/currency';
+import { usePriceEntries } from '@/lib/price-store';
+import { buildPriceSeries, PRICE_RANGES, PriceRange, PriceSeries, rangeStart, rebase, slicePoints } from '@/lib/stock-prices';
+import { formatCurrency, formatNumber } from '@/lib/utils';
+import type { CompanyRef, ExchangeRate, StockPrice } from '@/types';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+const MAX_PEERS = 4; // On the detail page; the comparison view allows more
+
+// Company first, then one colour per peer
+const SERIES_COLORS = ['#d97706', '#2563eb', '#16a34a', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#4b5563'];
+const seriesColor = (index: number) => SERIES_COLORS[index % SERIES_COLORS.length];
+
+type ChartStyle = 'line' | 'area';
+
+interface PriceChartProps {
+  company: CompanyRef;
+  prices: StockPrice[]; // The company's own stock_prices rows
+  exchangeRates: ExchangeRate[];
+  asOf: string | null; // YYYY-MM-DD; the chart ends there for as-of views
+  initialPeers?: CompanyRef[]; // Overlaid from the start
+  maxPeers?: number;
+}
+
+// Every company (id, name, ticker) for the peer picker, from the lightweight listing
+async function fetchCompanyList(): Promise<CompanyRef[]> {
+  const response = await fetch('/api/companies/refs');
+  if (!response.ok) throw new Error(`Company list request failed (${response.status})`);
+  const { data }: { data: CompanyRef[] } = await response.json();
+  return data;
+}
+
+const formatPrice = (value: number, currency: string) => formatCurrency(value, currency, value < 1 ? 3 : 2);
+
+// Add-peer button with a searchable company list, loaded the first time it opens
+function PeerPicker({ exclude, disabled, onPick }: { exclude: number[]; disabled: boolean; onPick: (peer: CompanyRef) => void }) {
+  const [open, setOpen] = useState(false);
+  const [companies, setCompanies] = useState<CompanyRef[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || companies) return;
+    fetchCompanyList().then(setCompanies, (err: unknown) => setError(err instanceof Error ? err.message : 'Failed to load companies'));
+  }, [open, companies]);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8" disabled={disabled}>
+          <Plus className="mr-1 h-4 w-4" /> Compare
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Company or ticker..." />
+          <CommandList>
+            <CommandEmpty>{error ?? (companies ? 'No matching company.' : 'Loading...')}</CommandEmpty>
+            {companies
+              ?.filter((company) => !exclude.includes(company.company_id))
+              .map((company) => (
+                <CommandItem
+                  key={company.company_id}
+                  value={`${company.company_name} ${company.tsx_code} #${company.company_id}`}
+                  onSelect={() => {
+                    onPick(company);
+                    setOpen(false);
+                  }}
+                >
+                  <span className="truncate">{company.company_name}</span>
+                  <span className="ml-auto uppercase text-xs text-muted-foreground">{company.tsx_code}</span>
+                </CommandItem>
+              ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function PriceChart({ company, prices, exchangeRates, asOf, initialPeers = [], maxPeers = MAX_PEERS }: PriceChartProps) {
+  const { currency, setCurrency, available } = useCurrency();
+  const [range, setRange] = useState<PriceRange>('1Y');
+  const [style, setStyle] = useState<ChartStyle>('line');
+  const [peers, setPeers] = useState<CompanyRef[]>(initialPeers.slice(0, maxPeers));
+  const peerEntries = usePriceEntries(peers.map((peer) => peer.company_id)); // Shared cache, see price-store.ts
+
+  const rates = useMemo(() => buildRateTable(exchangeRates), [exchangeRates]);
+
+  const addPeer = (peer: CompanyRef) => setPeers((current) => (current.length >= maxPeers ? current : [...current, peer]));
+  const removePeer = (companyId: number) => setPeers((current) => current.filter((peer) => peer.company_id !== companyId));
+
+  const rebased = peers.length > 0;
+
+  // Series in chart order with their label, sliced to the range; peers still loading (or failed)
+  // are skipped. Colours follow the position in `peers`, so they match the chips either way.
+  const { shown, labels, unconverted } = useMemo(() => {
+    const all: { ref: CompanyRef; color: string; series: PriceSeries }[] = [
+      { ref: company, color: seriesColor(0), series: buildPriceSeries(prices, company.company_id, currency, rates) },
+      ...peers.flatMap((peer, i) => {
+        const entry = peerEntries.get(peer.company_id);
+        if (entry?.status !== 'ready') return [];
+        return [{ ref: peer, color: seriesColor(i + 1), series: buildPriceSeries(entry.prices, peer.company_id, currency, rates) }];
+      }),
+    ];
+
+    // The range ends on the company's last price (or the as-of date), so peers line up with it
+    const lastDates = all.flatMap(({ series }) => series.points.slice(-1).map(({ date }) => date));
+    const end = asOf ?? (all[0].series.points.at(-1)?.date || lastDates.sort().at(-1) || null);
+    const start = end ? rangeStart(range, end) : null;
+
+    const shown = all.map(({ ref, color, series }) => {
+      const points = slicePoints(series.points, start, end);
+      return { ref, color, prices: points, points: rebased ? rebase(points) : points };
+    });
+    const labels = [...new Set(shown.flatMap(({ points }) => points.map(({ date }) => date)))].sort();
+    return { shown, labels, unconverted: all.reduce((sum, { series }) => sum + series.unconverted, 0) };
+  }, [company, prices, peers, peerEntries, currency, rates, range, rebased, asOf]);
+
+  const data = {
+    labels,
+    datasets: shown.map(({ ref, color, points }, i) => {
+      const byDate = new Map(points.map(({ date, value }) => [date, value]));
+      return {
+        label: `${ref.company_name} (${ref.tsx_code.toUpperCase()})`,
+        data: labels.map((date) => byDate.get(date) ?? null),
+        borderColor: color,
+        backgroundColor: `${color}26`, // ~15% alpha for the area fill
+        fill: style === 'area' ? 'origin' : false,
+        borderWidth: i === 0 ? 2 : 1.5,
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        spanGaps: true, // Peers may not trade on every date the company does
+      };
+    }),
+  };
+
+  const options: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { display: rebased, position: 'bottom' },
+      tooltip: {
+        callbacks: {
+          // Rebased values also show the price they stand for
+          label: (item) => {
+            const date = labels[item.dataIndex];
+            const price = shown[item.datasetIndex].prices.find((point) => point.date === date)?.value;
+            if (price === undefined) return `${item.dataset.label}: -`;
+            const priceText = formatPrice(price, currency);
+            return rebased ? `${item.dataset.label}: ${formatNumber(item.parsed.y, 1)} (${priceText})` : `${item.dataset.label}: ${priceText}`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: { ticks: { maxTicksLimit: 8, autoSkip: true } },
+      y: {
+        title: { display: true, text: rebased ? 'Rebased (start = 100)' : `Price (${currency})` },
+        ticks: { callback: (value) => (rebased ? formatNumber(Number(value), 0) : formatPrice(Number(value), currency)) },
+      },
+    },
+  };
+
+  const pendingPeers = peers.filter((peer) => peerEntries.get(peer.company_id)?.status !== 'ready' && peerEntries.get(peer.company_id)?.status !== 'error');
+  const peerError = (companyId: number) => {
+    const entry = peerEntries.get(companyId);
+    return entry?.status === 'error' ? entry.message : null;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <div className="flex gap-1">
+          {PRICE_RANGES.map(({ id }) => (
+            <Button key={id} variant={range === id ? 'secondary' : 'ghost'} size="sm" className="h-8 px-2" onClick={() => setRange(id)}>
+              {id}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1 border-l pl-2">
+          {REPORTING_CURRENCIES.map((code) => (
+            <Button
+              key={code}
+              variant={currency === code ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 px-2"
+              disabled={!available.includes(code)}
+              title={available.includes(code) ? undefined : 'No exchange rate on file'}
+              onClick={() => setCurrency(code)}
+            >
+              {code}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-1 border-l pl-2">
+          {(['line', 'area'] as const).map((option) => (
+            <Button key={option} variant={style === option ? 'secondary' : 'ghost'} size="sm" className="h-8 px-2 capitalize" onClick={() => setStyle(option)}>
+              {option}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1 border-l pl-2">
+          <PeerPicker
+            exclude={[company.company_id, ...peers.map((peer) => peer.company_id)]}
+            disabled={peers.length >= maxPeers}
+            onPick={addPeer}
+          />
+          {peers.map((peer, i) => (
+            <span key={peer.company_id} className="inline-flex items-center rounded border px-2 py-0.5 text-xs">
+              <span className="mr-1 h-2 w-2 rounded-full" style={{ backgroundColor: seriesColor(i + 1) }} />
+              {peer.tsx_code.toUpperCase()}
+              {peerError(peer.company_id) && <span className="ml-1 text-destructive">({peerError(peer.company_id)})</span>}
+              <button type="button" className="ml-1 text-muted-foreground hover:text-foreground" onClick={() => removePeer(peer.company_id)} aria-label={`Remove ${peer.company_name}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {labels.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No prices on file for this range.</p>
+      ) : (
+        <div className="h-72">
+          <Line data={data} options={options} />
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Daily closes from stock_prices, converted to {currency} at the latest exchange rates
+        {pendingPeers.length > 0 && ` · loading ${pendingPeers.map((peer) => peer.tsx_code.toUpperCase()).join(', ')}`}
+        {unconverted > 0 && ` · ${unconverted} price(s) left out, no currency recorded or no rate to ${currency}`}
+      </p>
+    </div>
+  );
+}
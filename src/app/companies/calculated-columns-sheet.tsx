@@ -0,0 +1,237 @@
+// src/app/companies/calculated-columns-sheet.tsx
+'use client';
+
+// Side panel to add, edit and remove the user's calculated (formula) columns.
+// Columns are stored by CalculatedColumnsProvider; the table picks them up from there.
+import React, { useState } from 'react';
+import { ChevronDown, Pencil, Sigma, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useCalculatedColumns } from '@/contexts/calculated-columns-context';
+import { CALCULATED_FORMATS, parseFormula, validateCalculatedColumn } from '@/lib/calculated-columns';
+import { SCREEN_SCOPE } from '@/lib/filters';
+import type { CalculatedColumn, MetricFormat } from '@/types';
+import { ExpressionInput } from './expression-input';
+
+type Draft = Omit<CalculatedColumn, 'id'>;
+
+const EMPTY_DRAFT: Draft = { name: '', expression: '', unit: '', format: 'number', higherIsBetter: true };
+
+// Starting points offered under the form
+const EXAMPLES: Draft[] = [
+  {
+    name: 'Cash / Market Cap',
+    expression: 'financials.cash_value / financials.market_cap_value * 100',
+    unit: '%',
+    format: 'percent',
+    higherIsBetter: true,
+  },
+  {
+    name: 'Fully Diluted Market Cap',
+    expression: 'financials.market_cap_value / capital_structure.existing_shares * capital_structure.fully_diluted_shares',
+    unit: '$',
+    format: 'currency',
+    higherIsBetter: false,
+  },
+  {
+    name: 'Margin x Production (at $2,400/oz)',
+    expression: '(2400 - costs.aisc_last_year) * production.current_production_total_aueq_koz * 1000',
+    unit: '$',
+    format: 'currency',
+    higherIsBetter: true,
+  },
+];
+
+const validateFormula = (source: string) => void parseFormula(source);
+
+export function CalculatedColumnsSheet() {
+  const { columns, addColumn, updateColumn, removeColumn } = useCalculatedColumns();
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false); // Show the name error only after a save attempt
+
+  const errors = validateCalculatedColumn(draft, columns.filter((column) => column.id !== editingId));
+  const valid = !errors.name && !errors.expression;
+
+  const reset = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+    setSubmitted(false);
+  };
+
+  const save = () => {
+    setSubmitted(true);
+    if (!valid) return;
+    const column = { ...draft, name: draft.name.trim(), expression: draft.expression.trim() };
+    if (editingId) updateColumn(editingId, column);
+    else addColumn(column);
+    reset();
+  };
+
+  const formatLabel = CALCULATED_FORMATS.find(({ format }) => format === draft.format)?.label ?? draft.format;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="h-9" title="Add your own formula columns">
+          <Sigma className="mr-2 h-4 w-4" /> Formulas{columns.length > 0 && ` (${columns.length})`}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Calculated columns</SheetTitle>
+          <SheetDescription>
+            Formulas over any company field, using + - * / and ABS, MIN, MAX, COALESCE. Monetary fields are in the
+            reporting currency. Columns are saved in this browser.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 px-4 pb-6">
+          {columns.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {columns.map((column) => (
+                <li key={column.id} className="flex items-start gap-2 p-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium">
+                      {column.name} <span className="text-xs text-muted-foreground">({column.unit || column.format}) {column.higherIsBetter ? '↑' : '↓'}</span>
+                    </p>
+                    <p className="truncate font-mono text-xs text-muted-foreground" title={column.expression}>{column.expression}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    title="Edit"
+                    onClick={() => {
+                      setDraft({ name: column.name, expression: column.expression, unit: column.unit, format: column.format, higherIsBetter: column.higherIsBetter });
+                      setEditingId(column.id);
+                      setSubmitted(false);
+                    }}
+                  >
+                    <span className="sr-only">Edit {column.name}</span>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    title="Delete"
+                    onClick={() => {
+                      removeColumn(column.id);
+                      if (editingId === column.id) reset();
+                    }}
+                  >
+                    <span className="sr-only">Delete {column.name}</span>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">{editingId ? 'Edit column' : 'New column'}</h3>
+            <div className="space-y-1">
+              <Label htmlFor="calculated-name">Name</Label>
+              <Input
+                id="calculated-name"
+                value={draft.name}
+                onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                aria-invalid={submitted && errors.name ? true : undefined}
+              />
+              {submitted && errors.name && <p className="text-xs text-destructive">{errors.name}</p>}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="calculated-expression">Formula</Label>
+              <ExpressionInput
+                id="calculated-expression"
+                value={draft.expression}
+                scope={SCREEN_SCOPE}
+                validate={validateFormula}
+                onChange={(expression) => setDraft((current) => ({ ...current, expression }))}
+                placeholder="financials.cash_value / financials.market_cap_value"
+              />
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label>Format</Label>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="h-9 w-40 justify-between">
+                      {formatLabel} <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    <DropdownMenuRadioGroup
+                      value={draft.format}
+                      onValueChange={(value) => {
+                        const format = value as MetricFormat;
+                        // Suggest the format's usual unit unless one was typed
+                        const previousDefault = CALCULATED_FORMATS.find((option) => option.format === draft.format)?.unit;
+                        const unit = !draft.unit || draft.unit === previousDefault
+                          ? CALCULATED_FORMATS.find((option) => option.format === format)?.unit ?? ''
+                          : draft.unit;
+                        setDraft({ ...draft, format, unit });
+                      }}
+                    >
+                      {CALCULATED_FORMATS.map(({ format, label }) => (
+                        <DropdownMenuRadioItem key={format} value={format}>{label}</DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="calculated-unit">Unit</Label>
+                <Input
+                  id="calculated-unit"
+                  className="w-24"
+                  value={draft.unit}
+                  onChange={(event) => setDraft({ ...draft, unit: event.target.value })}
+                />
+              </div>
+              <div className="flex h-9 items-center gap-2">
+                <Checkbox
+                  id="calculated-direction"
+                  checked={draft.higherIsBetter}
+                  onCheckedChange={(checked) => setDraft({ ...draft, higherIsBetter: !!checked })}
+                />
+                <Label htmlFor="calculated-direction" className="font-normal">Higher is better</Label>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={save} disabled={submitted && !valid}>
+                {editingId ? 'Save changes' : 'Add column'}
+              </Button>
+              {(editingId || draft !== EMPTY_DRAFT) && (
+                <Button variant="ghost" onClick={reset}>Cancel</Button>
+              )}
+            </div>
+          </div>
+
+          {!editingId && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Examples</p>
+              <div className="flex flex-wrap gap-2">
+                {EXAMPLES.map((example) => (
+                  <Button key={example.name} variant="secondary" size="sm" onClick={() => setDraft(example)}>
+                    {example.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
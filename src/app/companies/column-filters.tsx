@@ -0,0 +1,189 @@
+// src/app/companies/column-filters.tsx
+'use client';
+
+// Per-column filter popovers shown in the table headers: a min/max range with a
+// slider for numeric columns, and a multi-select with counts for categorical ones.
+// Both write RangeFilterValue / FacetFilterValue into the table's column filters.
+import React, { useMemo, useState } from 'react';
+import { Column } from '@tanstack/react-table';
+import { Filter } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import { CompanyData, FacetFilterValue, MetricConfig, RangeFilterValue } from '@/types';
+import { emptyFacetFilter, emptyRangeFilter, isFilterActive } from '@/lib/filters';
+import { formatMetricValue } from '@/lib/metrics';
+
+const SLIDER_STEPS = 1000;
+
+// Wide ranges (market cap runs from thousands to billions) get a symmetric log scale
+// so the slider is usable across the whole range
+function makeScale(min: number, max: number) {
+  const symlog = (v: number) => Math.sign(v) * Math.log10(1 + Math.abs(v));
+  const inverse = (t: number) => Math.sign(t) * (10 ** Math.abs(t) - 1);
+  const useLog = max - min > 1000;
+  const [from, to] = useLog ? [symlog(min), symlog(max)] : [min, max];
+  const span = to - from || 1;
+  return {
+    toStep: (v: number) => Math.round(((useLog ? symlog(v) : v) - from) / span * SLIDER_STEPS),
+    fromStep: (step: number) => {
+      const t = from + (step / SLIDER_STEPS) * span;
+      return useLog ? inverse(t) : t;
+    },
+  };
+}
+
+function FilterTrigger({ active, label }: { active: boolean; label: string }) {
+  return (
+    <PopoverTrigger asChild>
+      <Button variant="ghost" className="h-6 w-6 p-0" title={`Filter ${label}`}>
+        <span className="sr-only">Filter {label}</span>
+        <Filter className={active ? 'h-3 w-3 text-blue-600 fill-blue-600' : 'h-3 w-3'} />
+      </Button>
+    </PopoverTrigger>
+  );
+}
+
+function ExcludeMissing({ id, checked, onChange }: { id: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Checkbox id={id} checked={checked} onCheckedChange={(value) => onChange(!!value)} />
+      <Label htmlFor={id} className="text-xs font-normal">Exclude missing values</Label>
+    </div>
+  );
+}
+
+// Parse a typed bound; blank clears it
+function parseBound(text: string): number | null {
+  const n = Number(text.replace(/,/g, ''));
+  return text.trim() === '' || !Number.isFinite(n) ? null : n;
+}
+
+export function RangeFilter({ column, metric, currency }: { column: Column<CompanyData>; metric: MetricConfig; currency: string }) {
+  const filter = (column.getFilterValue() as RangeFilterValue | undefined) ?? emptyRangeFilter();
+  const [open, setOpen] = useState(false);
+
+  // Bounds of the rows left by the *other* filters, so the slider spans what's selectable
+  const facetedRows = open ? column.getFacetedRowModel().rows : null;
+  const domain = useMemo(() => {
+    const values = (facetedRows ?? [])
+      .map((row) => row.getValue<number | undefined>(column.id))
+      .filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+    return values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : null;
+  }, [column.id, facetedRows]);
+
+  const scale = domain ? makeScale(domain.min, domain.max) : null;
+  const [draft, setDraft] = useState<[number, number] | null>(null); // Slider position while dragging
+
+  const update = (patch: Partial<RangeFilterValue>) => column.setFilterValue({ ...filter, ...patch });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <FilterTrigger active={isFilterActive(filter)} label={metric.label} />
+      <PopoverContent className="w-72 space-y-3" align="start">
+        <p className="text-sm font-medium">{metric.label}</p>
+        {domain && scale ? (
+          <>
+            <Slider
+              min={0}
+              max={SLIDER_STEPS}
+              value={draft ?? [
+                filter.min === null ? 0 : Math.max(0, scale.toStep(filter.min)),
+                filter.max === null ? SLIDER_STEPS : Math.min(SLIDER_STEPS, scale.toStep(filter.max)),
+              ]}
+              onValueChange={(value) => setDraft([value[0], value[1]])}
+              onValueCommit={(value) => {
+                setDraft(null);
+                // Thumbs at the ends mean "no bound", so rows outside the current domain aren't cut
+                update({
+                  min: value[0] <= 0 ? null : scale.fromStep(value[0]),
+                  max: value[1] >= SLIDER_STEPS ? null : scale.fromStep(value[1]),
+                });
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              {formatMetricValue(draft ? scale.fromStep(draft[0]) : filter.min ?? domain.min, metric.format, currency)}
+              {' – '}
+              {formatMetricValue(draft ? scale.fromStep(draft[1]) : filter.max ?? domain.max, metric.format, currency)}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">No values in the current rows.</p>
+        )}
+        <div className="flex gap-2">
+          {/* key resets the uncontrolled inputs when the slider moves the bound */}
+          <Input
+            key={`min-${filter.min}`}
+            placeholder="Min"
+            defaultValue={filter.min ?? ''}
+            className="h-8"
+            onBlur={(event) => update({ min: parseBound(event.target.value) })}
+            onKeyDown={(event) => event.key === 'Enter' && update({ min: parseBound(event.currentTarget.value) })}
+          />
+          <Input
+            key={`max-${filter.max}`}
+            placeholder="Max"
+            defaultValue={filter.max ?? ''}
+            className="h-8"
+            onBlur={(event) => update({ max: parseBound(event.target.value) })}
+            onKeyDown={(event) => event.key === 'Enter' && update({ max: parseBound(event.currentTarget.value) })}
+          />
+        </div>
+        <ExcludeMissing id={`${column.id}-missing`} checked={filter.excludeMissing} onChange={(excludeMissing) => update({ excludeMissing })} />
+        <Button variant="outline" size="sm" className="w-full" onClick={() => column.setFilterValue(undefined)}>
+          Clear
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function FacetFilter({ column, label }: { column: Column<CompanyData>; label: string }) {
+  const filter = (column.getFilterValue() as FacetFilterValue | undefined) ?? emptyFacetFilter();
+  // Counts among the rows left by the other filters
+  const counts = column.getFacetedUniqueValues();
+  const options = [...counts.entries()]
+    .filter(([value]) => value !== null && value !== undefined && value !== '')
+    .map(([value, count]) => ({ value: String(value), count: count as number }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  const missing = (counts.get(null) ?? 0) + (counts.get(undefined) ?? 0);
+
+  const toggle = (value: string, checked: boolean) =>
+    column.setFilterValue({
+      ...filter,
+      values: checked ? [...filter.values, value] : filter.values.filter((v) => v !== value),
+    });
+
+  return (
+    <Popover>
+      <FilterTrigger active={isFilterActive(filter)} label={label} />
+      <PopoverContent className="w-56 space-y-2" align="start">
+        <p className="text-sm font-medium">{label}</p>
+        {options.map(({ value, count }) => (
+          <div key={value} className="flex items-center gap-2">
+            <Checkbox
+              id={`${column.id}-${value}`}
+              checked={filter.values.includes(value)}
+              onCheckedChange={(checked) => toggle(value, !!checked)}
+            />
+            <Label htmlFor={`${column.id}-${value}`} className="flex-1 text-sm font-normal capitalize">{value}</Label>
+            <span className="text-xs tabular-nums text-muted-foreground">{count}</span>
+          </div>
+        ))}
+        {missing > 0 && <p className="text-xs text-muted-foreground">{missing} without a value</p>}
+        <ExcludeMissing
+          id={`${column.id}-missing`}
+          checked={filter.excludeMissing}
+          onChange={(excludeMissing) => column.setFilterValue({ ...filter, excludeMissing })}
+        />
+        <Button variant="outline" size="sm" className="w-full" onClick={() => column.setFilterValue(undefined)}>
+          Clear
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,8 +1,9 @@
 // src/app/companies/columns.tsx
 'use client';
 
-import { ColumnDef } from '@tanstack/react-table';
-import { ArrowUpDown, MoreHorizontal } from 'lucide-react'; // Icons
+import Link from 'next/link';
+import { Column, ColumnDef, Row, Table, VisibilityState } from '@tanstack/react-table';
+import { ArrowUpDown, ChevronDown, History, MoreHorizontal } from 'lucide-react'; // Icons
 
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -11,249 +12,521 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Badge } from "@/components/ui/badge"; // For Status
 
-import { CompanyData } from '@/types'; // Your data types (ensure path is correct)
-// Ensure utils path is correct and functions exist
-import { formatNumber, formatCurrency } from '@/lib/utils';
+import { AggregateKind, CellDisplayMode, CompanyData, MetricConfig, MetricGroup, QualityIssue, QualitySeverity, RecordVersionInfo } from '@/types'; // Your data types (ensure path is correct)
+import { describeConversion } from '@/lib/currency';
+import {
+  describeMetric,
+  directionArrow,
+  formatMetricValue,
+  getMetricByKey,
+  getMetricValue,
+  METRIC_GROUPS,
+  METRICS,
+} from '@/lib/metrics';
+import { betterPercentile, buildDistribution, Distribution, formatPercentile, percentileColor } from '@/lib/percentiles';
+import { facetFilterFn, getExchange, rangeFilterFn } from '@/lib/filters';
+import { aggregate, AGGREGATES, defaultAggregate } from '@/lib/aggregates';
+import { FacetFilter, RangeFilter } from './column-filters';
+import { DEFAULT_SPARKLINE_DAYS, PriceSparkline, SPARKLINE_DAYS } from './price-sparkline';
+
+const SEVERITY_BADGES: Record<QualitySeverity, 'destructive' | 'outline' | 'secondary'> = {
+  error: 'destructive',
+  warning: 'outline',
+  info: 'secondary',
+};
+
+// Sort key for the quality column: any error outranks any number of warnings, and so on
+const qualityScore = (issues: QualityIssue[]): number =>
+  issues.reduce((score, issue) => score + (issue.severity === 'error' ? 10_000 : issue.severity === 'warning' ? 100 : 1), 0);
+
+// Tooltip line for a relation with several record versions
+const describeVersions = (relation: string, info: RecordVersionInfo): string => {
+  const shown = info.selected_updated ? `showing ${info.selected_updated.slice(0, 10)}` : 'showing undated record';
+  const newer = info.newer > 0 ? `, superseded by ${info.newer} newer` : '';
+  return `${relation}: ${info.versions} versions (${shown}${newer})`;
+};
+
+// Sort toggle button used by every sortable header
+function SortableHeaderButton({ column, label, title }: { column: Column<CompanyData>; label: string; title?: string }) {
+  return (
+    <Button
+      variant="ghost"
+      title={title}
+      onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+      className="-ml-4 h-8 data-[state=open]:bg-accent" // Shadcn table header button style
+    >
+      <span>{label}</span>
+      <ArrowUpDown className="ml-2 h-3 w-3" />
+    </Button>
+  );
+}
 
 // Helper function to create a sortable header
 const createSortableHeader = (label: string): ColumnDef<CompanyData>['header'] =>
-  ({ column }) => {
+  function SortableHeader({ column }) {
+    return <SortableHeaderButton column={column} label={label} />;
+  };
+
+// Sortable header with a multi-select facet filter (status, exchange)
+const createFacetHeader = (label: string): ColumnDef<CompanyData>['header'] =>
+  function FacetHeader({ column }) {
+    return (
+      <div className="flex items-center">
+        <SortableHeaderButton column={column} label={label} />
+        <FacetFilter column={column} label={label} />
+      </div>
+    );
+  };
+
+// Distribution of a column over the filtered rows. The filtered row model keeps its
+// identity until filters or data change, so it keys the cache.
+const distributionCache = new WeakMap<Row<CompanyData>[], Map<string, Distribution>>();
+
+const getColumnDistribution = (table: Table<CompanyData>, columnId: string): Distribution => {
+  const rows = table.getFilteredRowModel().rows;
+  let byColumn = distributionCache.get(rows);
+  if (!byColumn) {
+    byColumn = new Map();
+    distributionCache.set(rows, byColumn);
+  }
+  let distribution = byColumn.get(columnId);
+  if (!distribution) {
+    distribution = buildDistribution(rows.map((row) => row.getValue<number | undefined>(columnId)));
+    byColumn.set(columnId, distribution);
+  }
+  return distribution;
+};
+
+// Helper function for catalog metric cells. Shows the value, percentile or rank
+// (per-column display mode) and optionally shades by percentile, green = better.
+// Monetary values arrive already converted to the reporting currency (see companies-table.tsx);
+// converted ones get a marker and a tooltip with the rate used, looked up by column id.
+const formatMetricCell = (metric: MetricConfig, currency: string): ColumnDef<CompanyData>['cell'] =>
+  function MetricCell({ row, column, table }) {
+    const value = getMetricValue(row.original, metric);
+    const conversion = row.original.currency_conversions?.[column.id];
+    const { shading = false, displayModes = {} } = table.options.meta ?? {};
+    const mode = displayModes[column.id] ?? 'value';
+
+    if (conversion?.rate === null) {
+      // A value exists but there was no rate to convert it with
+      return <div className="text-right pr-2 text-muted-foreground" title={describeConversion(conversion)}>n/a</div>;
+    }
+
+    const distribution = value !== null && (shading || mode !== 'value') ? getColumnDistribution(table, column.id) : null;
+    const percentile = distribution ? distribution.percentile(value!) : null;
+    const rank = distribution ? distribution.rank(value!, metric.higherIsBetter) : null;
+    const position = distribution ? `${formatPercentile(percentile!)} percentile, rank ${rank} of ${distribution.count} (1 = best)` : null;
+
+    // Recomputed valuation ratios that disagree with the stored figure show both
+    const check = row.original.valuation_checks?.[column.id];
     return (
-      <Button
-        variant="ghost"
-        onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
-        className="-ml-4 h-8 data-[state=open]:bg-accent" // Shadcn table header button style
+      <div
+        className="text-right tabular-nums pr-2 rounded-sm"
+        style={shading && percentile !== null ? { backgroundColor: percentileColor(betterPercentile(percentile, metric.higherIsBetter)) } : undefined}
+        title={[
+          position,
+          conversion && describeConversion(conversion),
+          value === null && metric.requires && `No value: needs ${metric.requires}`,
+        ].filter(Boolean).join('\n') || undefined}
       >
-        <span>{label}</span>
-        <ArrowUpDown className="ml-2 h-3 w-3" />
-      </Button>
+        {mode === 'percentile' && percentile !== null
+          ? formatPercentile(percentile)
+          : mode === 'rank' && rank !== null
+            ? `#${rank} / ${distribution!.count}`
+            : formatMetricValue(value, metric.format, currency)}
+        {mode === 'value' && conversion && <sup className="ml-0.5 text-amber-600">*</sup>}
+        {mode === 'value' && check && (
+          <div className="text-xs text-muted-foreground" title="Stored value in valuation_metrics, out of date with current figures">
+            stored {formatMetricValue(check.stored, metric.format, currency)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+const DISPLAY_MODES: { mode: CellDisplayMode; label: string }[] = [
+  { mode: 'value', label: 'Value' },
+  { mode: 'percentile', label: 'Percentile' },
+  { mode: 'rank', label: 'Rank (1 = best)' },
+];
+
+// Sortable header plus a range filter and a menu to switch the column between value, percentile and rank
+const createMetricHeader = (metric: MetricConfig, currency: string): ColumnDef<CompanyData>['header'] =>
+  function MetricHeader({ column, table }) {
+    const mode = table.options.meta?.displayModes?.[column.id] ?? 'value';
+    return (
+      <div className="flex items-center">
+        <SortableHeaderButton column={column} label={metric.shortLabel ?? metric.label} title={describeMetric(metric)} />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" className="h-6 w-6 p-0" title="Display as value, percentile or rank">
+              <span className="sr-only">Display mode</span>
+              <ChevronDown className={mode === 'value' ? 'h-3 w-3' : 'h-3 w-3 text-blue-600'} />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>Show as</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={mode}
+              onValueChange={(value) => table.options.meta?.setDisplayMode?.(column.id, value as CellDisplayMode)}
+            >
+              {DISPLAY_MODES.map(({ mode, label }) => (
+                <DropdownMenuRadioItem key={mode} value={mode}>{label}</DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <RangeFilter column={column} metric={metric} currency={currency} />
+      </div>
     );
   };
 
-// Helper function for formatting numbers in cells
-const formatNumericCell = (accessorFn: (row: CompanyData) => number | null | undefined, decimals = 0): ColumnDef<CompanyData>['cell'] =>
-  ({ row }) => {
-    const value = accessorFn(row.original);
-     // --- DEBUG LOG (Remove later) ---
-     // if (accessorFn.toString().includes('resources_total_aueq_moz')) { // Example specific log
-     //    console.log(`Res Moz for ${row.original.company_name}: ${value}`);
-     // }
-     // --- END DEBUG LOG ---
-    return <div className="text-right tabular-nums pr-2">{formatNumber(value, decimals)}</div>; // Added padding-right
+// Market cap weights for the weighted mean, in the same currency as the other figures
+const MARKET_CAP = getMetricByKey('market_cap_value')!;
+
+// Footer cell summarizing a metric over the filtered rows, with a menu to pick the aggregate
+const createMetricFooter = (metric: MetricConfig, currency: string): ColumnDef<CompanyData>['footer'] =>
+  function MetricFooter({ column, table }) {
+    const kind = table.options.meta?.aggregates?.[column.id] ?? defaultAggregate(metric);
+    const rows = table.getFilteredRowModel().rows;
+    const values = rows.map((row) => getMetricValue(row.original, metric));
+    const weights = kind === 'weighted_mean' ? rows.map((row) => getMetricValue(row.original, MARKET_CAP)) : [];
+    const result = aggregate(kind, values, weights);
+
+    const count = values.filter((value) => value !== null).length;
+    const unconverted = rows.filter((row) => row.original.currency_conversions?.[column.id]?.rate === null).length;
+    const label = AGGREGATES.find((option) => option.kind === kind)!.label;
+    const title = [
+      `${label} of ${count} of ${rows.length} filtered companies with a value`,
+      unconverted > 0 && `${unconverted} left out: no exchange rate to ${currency}`,
+      count === 0 && metric.requires && `None has ${metric.requires}`,
+    ].filter(Boolean).join('\n');
+
+    return (
+      <div className="flex flex-col items-end pr-2" title={title}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button type="button" className="flex items-center text-xs font-normal text-muted-foreground hover:text-foreground">
+              {label} <ChevronDown className="ml-0.5 h-3 w-3" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Summarize as</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={kind}
+              onValueChange={(value) => table.options.meta?.setAggregate?.(column.id, value as AggregateKind)}
+            >
+              {AGGREGATES.map((option) => (
+                <DropdownMenuRadioItem key={option.kind} value={option.kind}>{option.label}</DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <span className="tabular-nums">{kind === 'count' ? result : formatMetricValue(result, metric.format, currency)}</span>
+      </div>
+    );
   };
 
-// Helper function for formatting currency in cells
-const formatCurrencyCell = (
-   valueAccessor: (row: CompanyData) => number | null | undefined,
-   currencyAccessor: (row: CompanyData) => string | null | undefined,
-   defaultCurrency = 'USD'
-): ColumnDef<CompanyData>['cell'] =>
-  ({ row }) => {
-    const value = valueAccessor(row.original);
-    const currencyCode = currencyAccessor(row.original) || defaultCurrency;
-    const displayCurrency = currencyCode?.toUpperCase() || 'USD';
-     // --- DEBUG LOG (Remove later) ---
-     // if (valueAccessor.toString().includes('market_cap_value')) { // Example specific log
-     //    console.log(`Mkt Cap for ${row.original.company_name}: ${value} ${displayCurrency}`);
-     // }
-     // --- END DEBUG LOG ---
-    return <div className="text-right tabular-nums pr-2">{formatCurrency(value, displayCurrency)}</div>; // Added padding-right
+// Footer for text columns: how many filtered companies have a value
+const createCountFooter = (noun = 'with value'): ColumnDef<CompanyData>['footer'] =>
+  function CountFooter({ column, table }) {
+    const rows = table.getFilteredRowModel().rows;
+    const count = rows.filter((row) => {
+      const value = row.getValue(column.id);
+      return value !== null && value !== undefined && value !== '';
+    }).length;
+    return (
+      <div className="flex flex-col pl-1">
+        <span className="text-xs font-normal text-muted-foreground">Count</span>
+        <span className="tabular-nums">{count} {noun}</span>
+      </div>
+    );
   };
 
+// Price Trend header: label plus a menu to pick the sparkline window
+function SparklineHeader({ table }: { table: Table<CompanyData> }) {
+  const days = table.options.meta?.sparklineDays ?? DEFAULT_SPARKLINE_DAYS;
+  return (
+    <div className="flex items-center pl-1">
+      <span title="Share price over the last days on file, green when it rose">Price Trend</span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" className="h-6 px-1 text-xs font-normal text-muted-foreground" title="Days shown">
+            {days}d <ChevronDown className="ml-0.5 h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Show the last</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={String(days)} onValueChange={(value) => table.options.meta?.setSparklineDays?.(Number(value))}>
+            {SPARKLINE_DAYS.map((option) => (
+              <DropdownMenuRadioItem key={option} value={String(option)}>{option} days</DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+// Sparkline of recent stock_prices, shown after Market Cap when picked in the Columns menu.
+// Not sortable or filterable: the prices load per visible row (see price-sparkline.tsx).
+const createSparklineColumn = (): ColumnDef<CompanyData> => ({
+  id: 'price_sparkline',
+  header: SparklineHeader,
+  cell: ({ row, table }) => (
+    <PriceSparkline companyId={row.original.company_id} days={table.options.meta?.sparklineDays ?? DEFAULT_SPARKLINE_DAYS} />
+  ),
+  enableSorting: false,
+  enableColumnFilter: false,
+  meta: { label: 'Price Trend' },
+  size: 130,
+});
+
+// One column per catalog metric; the id is the metric path so conversions and checks line up
+const createMetricColumn = (metric: MetricConfig, currency: string): ColumnDef<CompanyData> => ({
+  id: metric.path,
+  // Missing values are undefined, not null: sortUndefined only keeps undefined last in both directions
+  accessorFn: (row) => getMetricValue(row, metric) ?? undefined,
+  header: createMetricHeader(metric, currency),
+  cell: formatMetricCell(metric, currency),
+  footer: createMetricFooter(metric, currency),
+  filterFn: rangeFilterFn,
+  sortUndefined: 'last',
+  meta: { label: `${metric.label} ${directionArrow(metric)}`, metric },
+  size: Math.max(160, (metric.shortLabel ?? metric.label).length * 9 + 24),
+});
 
-// Define the columns for your table
-export const columns: ColumnDef<CompanyData>[] = [
-  // --- Selection Column ---
-  {
-    id: 'select',
-    header: ({ table }) => (
-      <Checkbox
-        checked={
-          table.getIsAllPageRowsSelected() ||
-          (table.getIsSomePageRowsSelected() && 'indeterminate')
-        }
-        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
-        aria-label="Select all"
-        className="translate-y-[2px]"
-      />
-    ),
-    cell: ({ row }) => (
-      <Checkbox
-        checked={row.getIsSelected()}
-        onCheckedChange={(value) => row.toggleSelected(!!value)}
-        aria-label="Select row"
-        className="translate-y-[2px]"
-      />
-    ),
-    enableSorting: false,
-    enableHiding: false,
-    size: 40, // Fixed small size
-  },
-
-  // --- Company Info ---
-  {
-    accessorKey: 'company_name',
-    header: createSortableHeader('Company Name'),
-    cell: ({ row }) => <div className="font-medium pl-1">{row.getValue('company_name')}</div>, // Added padding-left
-    size: 250,
-  },
-  {
-    accessorKey: 'tsx_code',
-    header: createSortableHeader('Ticker'),
-    cell: ({ row }) => <div className="uppercase pl-1">{row.getValue('tsx_code')}</div>, // Added padding-left
-    size: 100,
-  },
-   {
-    accessorKey: 'status',
-    header: createSortableHeader('Status'),
-    cell: ({ row }) => {
-      const status = row.getValue('status') as string | null;
-      if (!status) return <div className="pl-1">-</div>;
-      let variant: "default" | "secondary" | "destructive" | "outline" = "secondary";
-      if (status.toLowerCase() === 'producer') variant = "default";
-      if (status.toLowerCase() === 'developer') variant = "outline";
-      // Add more status types if needed
-      return <div className="pl-1"><Badge variant={variant} className="capitalize">{status}</Badge></div>; // Added padding-left
+// Header spanning one group's columns (Company, Financials, ...). Groups only label and
+// toggle their columns; sorting, filtering and sizing stay on the leaf columns.
+const createGroupColumn = (group: MetricGroup, columns: ColumnDef<CompanyData>[]): ColumnDef<CompanyData> => {
+  const label = METRIC_GROUPS.find((entry) => entry.group === group)!.label;
+  return { id: `group:${group}`, header: label, meta: { label }, columns };
+};
+
+// Catalog metrics shown until the user changes the column selection
+export const DEFAULT_VISIBLE_METRICS = [
+  'market_cap_value',
+  'cash_value',
+  'enterprise_value_value',
+  'resources_total_aueq_moz',
+  'reserves_total_aueq_moz',
+  'current_production_total_aueq_koz',
+  'aisc_last_year',
+  'mkt_cap_per_resource_oz_all',
+  'ev_per_resource_oz_all',
+];
+
+// Column id as TanStack derives it: the explicit id, else the accessorKey
+const getColumnId = (column: ColumnDef<CompanyData>): string =>
+  column.id ?? String((column as { accessorKey?: string }).accessorKey ?? '');
+
+// Leaf column ids in definition order, looking inside groups
+export const getLeafColumnIds = (columns: ColumnDef<CompanyData>[]): string[] =>
+  columns.flatMap((column) => {
+    const children = (column as { columns?: ColumnDef<CompanyData>[] }).columns;
+    return children ? getLeafColumnIds(children) : [getColumnId(column)];
+  });
+
+// Hide headquarters, the price sparkline and every metric column outside DEFAULT_VISIBLE_METRICS
+export function getDefaultColumnVisibility(): VisibilityState {
+  const visibility: VisibilityState = { headquarters: false, price_sparkline: false };
+  for (const metric of METRICS) {
+    if (!DEFAULT_VISIBLE_METRICS.includes(metric.key)) visibility[metric.path] = false;
+  }
+  return visibility;
+}
+
+// Define the columns for your table. Monetary columns are labelled in the reporting currency,
+// so the set is rebuilt when it changes, and when the user's calculated columns change.
+// Everything but select/actions sits under a group header, in METRIC_GROUPS order.
+export const buildColumns = (currency: string, calculated: MetricConfig[] = []): ColumnDef<CompanyData>[] => {
+  // Catalog metrics (src/lib/metrics.ts) with the default ones first, then calculated columns
+  // (src/lib/calculated-columns.ts), which all belong to the 'calculated' group
+  const metrics = [
+    ...DEFAULT_VISIBLE_METRICS.map((key) => getMetricByKey(key)!),
+    ...METRICS.filter((metric) => !DEFAULT_VISIBLE_METRICS.includes(metric.key)),
+    ...calculated,
+  ];
+  const metricColumns = (group: MetricGroup) => {
+    const columns = metrics.filter((metric) => metric.group === group).map((metric) => createMetricColumn(metric, currency));
+    const marketCap = columns.findIndex((column) => column.id === MARKET_CAP.path);
+    if (marketCap >= 0) columns.splice(marketCap + 1, 0, createSparklineColumn());
+    return columns;
+  };
+
+  return [
+    // --- Selection Column ---
+    {
+      id: 'select',
+      header: ({ table }) => (
+        <Checkbox
+          checked={
+            table.getIsAllPageRowsSelected() ||
+            (table.getIsSomePageRowsSelected() && 'indeterminate')
+          }
+          onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+          aria-label="Select all"
+          className="translate-y-[2px]"
+        />
+      ),
+      cell: ({ row }) => (
+        <Checkbox
+          checked={row.getIsSelected()}
+          onCheckedChange={(value) => row.toggleSelected(!!value)}
+          aria-label="Select row"
+          className="translate-y-[2px]"
+        />
+      ),
+      enableSorting: false,
+      enableHiding: false,
+      enablePinning: false, // Always pinned left, see src/lib/table-views.ts
+      enableResizing: false,
+      size: 40, // Fixed small size
     },
-    size: 120,
-  },
-   {
-    accessorKey: 'headquarters', // Example hidden by default
-    header: createSortableHeader('Headquarters'),
-    cell: ({ row }) => <div className="pl-1">{row.getValue('headquarters') ?? '-'}</div>,
-    size: 180,
-  },
-
-
-  // --- Financials ---
-  {
-    accessorKey: 'financials.market_cap_value',
-    header: createSortableHeader('Market Cap'),
-    cell: formatCurrencyCell(
-      (row) => row.financials?.market_cap_value,
-      (row) => row.financials?.market_cap_currency,
-      'CAD'
-    ),
-    size: 150,
-  },
-   {
-    accessorKey: 'financials.cash_value',
-    header: createSortableHeader('Cash'),
-     cell: formatCurrencyCell(
-       (row) => row.financials?.cash_value,
-       (row) => row.financials?.market_cap_currency, // Assuming currency match - VERIFY
-       'CAD'
-    ),
-    size: 150,
-  },
-   {
-    accessorKey: 'financials.enterprise_value_value',
-    header: createSortableHeader('Enterprise Value'),
-     cell: formatCurrencyCell(
-       (row) => row.financials?.enterprise_value_value,
-       (row) => row.financials?.market_cap_currency, // Assuming currency match - VERIFY
-       'CAD'
-    ),
-    size: 150,
-  },
-
-
-  // --- Mineral Estimates ---
-  {
-    accessorKey: 'mineral_estimates.resources_total_aueq_moz',
-    header: createSortableHeader('Total Resources (Moz AuEq)'),
-    cell: formatNumericCell((row) => row.mineral_estimates?.resources_total_aueq_moz, 2),
-    size: 200,
-  },
-   {
-    accessorKey: 'mineral_estimates.reserves_total_aueq_moz',
-    header: createSortableHeader('Total Reserves (Moz AuEq)'),
-    cell: formatNumericCell((row) => row.mineral_estimates?.reserves_total_aueq_moz, 2),
-    size: 200,
-  },
-
-
-   // --- Production & Costs ---
-   {
-    accessorKey: 'production.current_production_total_aueq_koz',
-    header: createSortableHeader('Production (koz AuEq)'),
-    cell: formatNumericCell((row) => row.production?.current_production_total_aueq_koz, 0),
-    size: 180,
-  },
-  {
-    accessorKey: 'costs.aisc_last_year',
-    header: createSortableHeader('AISC (Last Yr)'),
-     cell: formatCurrencyCell(
-       (row) => row.costs?.aisc_last_year,
-       (row) => row.costs?.aisc_last_year_currency,
-       'USD'
-    ),
-    size: 150,
-  },
-
-  // --- Valuation ---
-   {
-    accessorKey: 'valuation_metrics.mkt_cap_per_resource_oz_all',
-    header: createSortableHeader('Mkt Cap / Res Oz'), // Shortened header
-    cell: formatCurrencyCell(
-       (row) => row.valuation_metrics?.mkt_cap_per_resource_oz_all,
-       () => 'USD',
-       'USD'
-    ),
-    size: 160, // Adjusted size
-  },
-  {
-    accessorKey: 'valuation_metrics.ev_per_resource_oz_all',
-    header: createSortableHeader('EV / Res Oz'), // Shortened header
-     cell: formatCurrencyCell(
-       (row) => row.valuation_metrics?.ev_per_resource_oz_all,
-       () => 'USD',
-       'USD'
-    ),
-    size: 160, // Adjusted size
-  },
-
-  // --- Actions Column ---
-  {
-    id: 'actions',
-    cell: ({ row }) => {
-      const company = row.original;
-      return (
-        <div className="flex justify-center"> {/* Center the button */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" className="h-8 w-8 p-0">
-                  <span className="sr-only">Open menu</span>
-                  <MoreHorizontal className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                <DropdownMenuItem
-                  onClick={() => navigator.clipboard.writeText(company.company_id.toString())}
-                >
-                  Copy Company ID
-                </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                {/* Update later with actual link/modal */}
-                <DropdownMenuItem onClick={() => alert(`Viewing details for ${company.company_name}`)}>
-                    View details
-                 </DropdownMenuItem>
-                <DropdownMenuItem onClick={() => alert(`Saving ${company.company_name}`)}>
-                    Save company
-                 </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
-         </div>
-      );
+
+    // --- Company Info, then the company metrics (metal split) ---
+    createGroupColumn('company', [
+      {
+        accessorKey: 'company_name',
+        header: createSortableHeader('Company Name'),
+        footer: createCountFooter('companies'),
+        meta: { label: 'Company Name' },
+        cell: ({ row }) => {
+          // Flag companies whose figures were picked from several record versions
+          const versions = Object.entries(row.original.record_versions ?? {});
+          return (
+            <div className="font-medium pl-1 flex items-center gap-1">
+              {row.getValue('company_name')}
+              {versions.length > 0 && (
+                <span title={versions.map(([relation, info]) => describeVersions(relation, info)).join('\n')}>
+                  <History className="h-3 w-3 text-amber-600" />
+                </span>
+              )}
+            </div>
+          );
+        },
+        size: 250,
+      },
+      {
+        accessorKey: 'tsx_code',
+        header: createSortableHeader('Ticker'),
+        footer: createCountFooter(),
+        meta: { label: 'Ticker' },
+        cell: ({ row }) => <div className="uppercase pl-1">{row.getValue('tsx_code')}</div>, // Added padding-left
+        size: 100,
+      },
+      {
+        // Listing venue from the ticker suffix (.TO, .V, ...)
+        id: 'exchange',
+        accessorFn: (row) => getExchange(row.tsx_code) ?? undefined, // undefined so sortUndefined keeps it last
+        header: createFacetHeader('Exchange'),
+        footer: createCountFooter(),
+        meta: { label: 'Exchange' },
+        cell: ({ row }) => <div className="pl-1">{row.getValue<string | null>('exchange') ?? '-'}</div>,
+        filterFn: facetFilterFn,
+        sortUndefined: 'last',
+        size: 120,
+      },
+       {
+        accessorKey: 'status',
+        header: createFacetHeader('Status'),
+        footer: createCountFooter(),
+        meta: { label: 'Status' },
+        filterFn: facetFilterFn,
+        cell: ({ row }) => {
+          const status = row.getValue('status') as string | null;
+          if (!status) return <div className="pl-1">-</div>;
+          let variant: "default" | "secondary" | "destructive" | "outline" = "secondary";
+          if (status.toLowerCase() === 'producer') variant = "default";
+          if (status.toLowerCase() === 'developer') variant = "outline";
+          // Add more status types if needed
+          return <div className="pl-1"><Badge variant={variant} className="capitalize">{status}</Badge></div>; // Added padding-left
+        },
+        size: 140,
+      },
+      {
+        // Data quality badge: issue count, coloured by the worst severity (rules in src/lib/data-quality.ts)
+        id: 'quality',
+        accessorFn: (row) => qualityScore(row.quality_issues ?? []),
+        header: createSortableHeader('Quality'),
+        meta: {
+          label: 'Quality',
+          // Issue count and worst severity rather than the sort score
+          exportValue: (row) => (row.quality_issues?.length ? `${row.quality_issues.length} ${row.quality_issues[0].severity}` : null),
+        },
+        cell: ({ row }) => {
+          const issues = row.original.quality_issues ?? [];
+          if (issues.length === 0) return <div className="pl-1 text-muted-foreground">-</div>;
+          const worst = issues[0].severity; // Sorted most severe first
+          return (
+            <div className="pl-1" title={issues.map((issue) => `[${issue.severity}] ${issue.message}`).join('\n')}>
+              <Badge variant={SEVERITY_BADGES[worst]} className={worst === 'warning' ? 'border-amber-500 text-amber-700' : undefined}>
+                {issues.length} {worst}
+              </Badge>
+            </div>
+          );
+        },
+        size: 110,
+      },
+       {
+        accessorKey: 'headquarters', // Example hidden by default
+        header: createSortableHeader('Headquarters'),
+        footer: createCountFooter(),
+        meta: { label: 'Headquarters' },
+        cell: ({ row }) => <div className="pl-1">{row.getValue('headquarters') ?? '-'}</div>,
+        size: 180,
+      },
+      ...metricColumns('company'),
+    ]),
+
+    // --- Metric groups; the Calculated group only once the user has formulas ---
+    ...METRIC_GROUPS.filter(({ group }) => group !== 'company')
+      .map(({ group }) => createGroupColumn(group, metricColumns(group)))
+      .filter((column) => (column as { columns: ColumnDef<CompanyData>[] }).columns.length > 0),
+
+    // --- Actions Column ---
+    {
+      id: 'actions',
+      cell: ({ row }) => {
+        const company = row.original;
+        return (
+          <div className="flex justify-center"> {/* Center the button */}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="h-8 w-8 p-0">
+                    <span className="sr-only">Open menu</span>
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                  <DropdownMenuItem
+                    onClick={() => navigator.clipboard.writeText(company.company_id.toString())}
+                  >
+                    Copy Company ID
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem asChild>
+                    <Link href={`/companies/${company.company_id}`}>View details</Link>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+           </div>
+        );
+      },
+      enableSorting: false,
+      enableHiding: false,
+      enablePinning: false, // Always pinned right
+      enableResizing: false,
+      size: 60, // Fixed small size
     },
-    enableSorting: false,
-    enableHiding: false,
-    size: 60, // Fixed small size
-  },
-];
\ No newline at end of file
+  ];
+};
\ No newline at end of file
@@ -0,0 +1,120 @@
+// src/app/companies/companies-table.tsx
+'use client'; // Column definitions hold render functions, so they have to live on the client
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { CompanyData, ExchangeRate, SavedView, TableViewState } from '@/types';
+import { useCurrency } from '@/contexts/currency-context';
+import { buildRateTable, normalizeCompanyCurrency, REPORTING_CURRENCIES, ReportingCurrency } from '@/lib/currency';
+import { applyDerivedValuations } from '@/lib/derived-metrics';
+import { METRICS } from '@/lib/metrics';
+import { checkCompanyQuality } from '@/lib/data-quality';
+import { buildScreenScope, createScreenFilterFn, getColumnValue } from '@/lib/filters';
+import { createCalculator } from '@/lib/calculated-columns';
+import { useCalculatedColumns } from '@/contexts/calculated-columns-context';
+import { createViewState, readViewParams, writeViewParams } from '@/lib/table-views';
+import { CalculatedColumnsSheet } from './calculated-columns-sheet';
+import { ViewsMenu } from './views-menu';
+import { ExportMenu } from './export-menu';
+import { CompareButton } from './compare-button';
+import { ScatterChartDialog } from './scatter-chart-dialog';
+import { DataTable } from './data-table'; // The table component
+import { buildColumns, getDefaultColumnVisibility, getLeafColumnIds } from './columns'; // The column definitions
+
+interface CompaniesTableProps {
+  data: CompanyData[];
+  exchangeRates: ExchangeRate[];
+  asOf: string | null; // As-of timestamp the records were loaded for; null = latest
+}
+
+export function CompaniesTable({ data, exchangeRates, asOf }: CompaniesTableProps) {
+  const { currency, setCurrency } = useCurrency();
+  const { columns: calculatedColumns, metrics: calculatedMetrics } = useCalculatedColumns();
+  const rateTable = useMemo(() => buildRateTable(exchangeRates), [exchangeRates]);
+
+  // Convert on the client so switching currency is instant; sorting then works on converted values.
+  // Valuation ratios are recomputed from the converted figures, then the quality rules run,
+  // then the user's formulas are evaluated on the converted figures.
+  const converted = useMemo(() => {
+    const calculate = createCalculator(calculatedColumns);
+    return data.map((company) => {
+      const normalized = applyDerivedValuations(normalizeCompanyCurrency(company, currency, rateTable));
+      return calculate({ ...normalized, quality_issues: checkCompanyQuality(normalized) });
+    });
+  }, [data, currency, rateTable, calculatedColumns]);
+
+  const columns = useMemo(() => buildColumns(currency, calculatedMetrics), [currency, calculatedMetrics]);
+  const chartMetrics = useMemo(() => [...METRICS, ...calculatedMetrics], [calculatedMetrics]);
+  const columnIds = useMemo(() => getLeafColumnIds(columns), [columns]);
+  const defaultState = useMemo(() => createViewState(getDefaultColumnVisibility()), []);
+
+  // The table starts from the view in the URL. Applying a saved view remounts it (new key)
+  // with that view as its initial state; from then on it reports every change back.
+  const searchParams = useSearchParams();
+  const [urlView] = useState(() => readViewParams(new URLSearchParams(searchParams.toString()), columnIds, defaultState));
+  const [view, setView] = useState({ key: 0, state: urlView.state });
+  const [tableState, setTableState] = useState<TableViewState | null>(null);
+
+  useEffect(() => {
+    if (urlView.currency) setCurrency(urlView.currency);
+  }, [urlView, setCurrency]);
+
+  // Mirror the view into the query string without a navigation (asOf etc. are kept)
+  useEffect(() => {
+    if (!tableState) return;
+    const params = writeViewParams(new URLSearchParams(window.location.search), tableState, currency, columnIds, defaultState);
+    // Keep the separators readable; URLSearchParams accepts them unescaped
+    const query = params.toString().replace(/%3A/gi, ':').replace(/%2C/gi, ',').replace(/%7C/gi, '|');
+    if (query !== window.location.search.slice(1)) {
+      window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    }
+  }, [tableState, currency, columnIds, defaultState]);
+
+  const applyView = (saved: SavedView | null) => {
+    setView((current) => ({ key: current.key + 1, state: saved?.state ?? defaultState }));
+    if (saved && REPORTING_CURRENCIES.includes(saved.currency as ReportingCurrency)) {
+      setCurrency(saved.currency as ReportingCurrency);
+    }
+  };
+
+  // Screens can use calculated columns too; text fields offer their distinct values (status, exchange, ...)
+  const screenScope = useMemo(
+    () => ({
+      ...buildScreenScope(calculatedMetrics),
+      fieldValues: (field: string) =>
+        [...new Set(data.map((company) => getColumnValue(company, field)).filter((v): v is string => typeof v === 'string' && v !== ''))]
+          .sort()
+          .slice(0, 50),
+    }),
+    [data, calculatedMetrics]
+  );
+  const globalFilterFn = useMemo(() => createScreenFilterFn(screenScope), [screenScope]);
+
+  return (
+    <>
+      <p className="mb-2 text-xs text-muted-foreground">
+        Monetary values in {currency}. <span className="text-amber-600">*</span> converted from the reported
+        currency (hover for the rate used); n/a means no exchange rate was available or no currency was recorded.
+        Valuation ratios are recomputed from current figures; a stored value that disagrees is shown underneath.
+      </p>
+      <DataTable
+        key={view.key}
+        columns={columns}
+        data={converted}
+        initialState={view.state}
+        onStateChange={setTableState}
+        globalFilterFn={globalFilterFn}
+        screenScope={screenScope}
+        toolbarActions={(table) => (
+          <>
+            <CompareButton table={table} currency={currency} asOf={asOf} />
+            <ScatterChartDialog table={table} metrics={chartMetrics} currency={currency} />
+            <ExportMenu table={table} currency={currency} asOf={asOf} />
+            <ViewsMenu state={tableState} currency={currency} onApply={applyView} />
+            <CalculatedColumnsSheet />
+          </>
+        )}
+      />
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+// src/app/companies/compare-button.tsx
+'use client';
+
+// Toolbar Compare action: opens the comparison view for the selected rows
+// (between MIN_COMPARE and MAX_COMPARE of them), carrying the as-of date and currency.
+import React from 'react';
+import Link from 'next/link';
+import { Table } from '@tanstack/react-table';
+import { Columns3 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { compareHref, MAX_COMPARE, MIN_COMPARE } from '@/lib/comparison';
+import type { CompanyData } from '@/types';
+
+interface CompareButtonProps {
+  table: Table<CompanyData>;
+  currency: string;
+  asOf: string | null; // As-of timestamp of the table's records; null = latest
+}
+
+export function CompareButton({ table, currency, asOf }: CompareButtonProps) {
+  const ids = table.getSelectedRowModel().rows.map((row) => row.original.company_id);
+  const enabled = ids.length >= MIN_COMPARE && ids.length <= MAX_COMPARE;
+  const label = (
+    <>
+      <Columns3 className="mr-2 h-4 w-4" />
+      Compare{ids.length > 0 && ` (${ids.length})`}
+    </>
+  );
+
+  if (!enabled) {
+    return (
+      <Button variant="outline" className="h-9" disabled title={`Select ${MIN_COMPARE} to ${MAX_COMPARE} companies to compare`}>
+        {label}
+      </Button>
+    );
+  }
+  return (
+    <Button variant="outline" className="h-9" asChild title="Compare the selected companies side by side">
+      <Link href={`${compareHref(ids, asOf?.slice(0, 10))}&currency=${currency}`}>{label}</Link>
+    </Button>
+  );
+}
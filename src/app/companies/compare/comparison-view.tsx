@@ -0,0 +1,166 @@
+// src/app/companies/compare/comparison-view.tsx
+'use client';
+
+// Comparison workspace: the chosen companies side by side, every catalog metric (and the
+// user's calculated columns) grouped by section, with the best and worst value in each row
+// highlighted by the metric's direction, plus their share prices rebased to 100.
+// The URL (?ids=..&asOf=..&currency=..) reproduces the view, so it can be shared.
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Check, Link2, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCurrency } from '@/contexts/currency-context';
+import { useCalculatedColumns } from '@/contexts/calculated-columns-context';
+import { createCalculator } from '@/lib/calculated-columns';
+import { compareHref, buildComparison, MAX_COMPARE, MIN_COMPARE } from '@/lib/comparison';
+import { buildRateTable, describeConversion, normalizeCompanyCurrency, REPORTING_CURRENCIES, ReportingCurrency } from '@/lib/currency';
+import { applyDerivedValuations } from '@/lib/derived-metrics';
+import { describeMetric, directionArrow, formatMetricValue, METRICS } from '@/lib/metrics';
+import { cn } from '@/lib/utils';
+import type { CompanyData, ExchangeRate, StockPrice } from '@/types';
+import { PriceChart } from '../[id]/price-chart';
+
+interface ComparisonViewProps {
+  companies: CompanyData[]; // In URL order
+  prices: StockPrice[]; // The first company's stock_prices; the others load in the chart
+  exchangeRates: ExchangeRate[];
+  asOf: string | null; // YYYY-MM-DD when the records are historical
+}
+
+export function ComparisonView({ companies, prices, exchangeRates, asOf }: ComparisonViewProps) {
+  const { currency, setCurrency } = useCurrency();
+  const { columns: calculatedColumns, metrics: calculatedMetrics } = useCalculatedColumns();
+  const rateTable = useMemo(() => buildRateTable(exchangeRates), [exchangeRates]);
+  const [copied, setCopied] = useState(false);
+
+  // Same conversion as the companies table, so the figures match it
+  const converted = useMemo(() => {
+    const calculate = createCalculator(calculatedColumns);
+    return companies.map((company) => calculate(applyDerivedValuations(normalizeCompanyCurrency(company, currency, rateTable))));
+  }, [companies, currency, rateTable, calculatedColumns]);
+
+  const sections = useMemo(() => buildComparison(converted, [...METRICS, ...calculatedMetrics]), [converted, calculatedMetrics]);
+
+  // A shared link carries its currency; afterwards the URL follows the currency toggle
+  const searchParams = useSearchParams();
+  const [urlCurrency] = useState(() => searchParams.get('currency'));
+  useEffect(() => {
+    if (REPORTING_CURRENCIES.includes(urlCurrency as ReportingCurrency)) setCurrency(urlCurrency as ReportingCurrency);
+  }, [urlCurrency, setCurrency]);
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    params.set('currency', currency);
+    const query = params.toString().replace(/%2C/gi, ',');
+    if (query !== window.location.search.slice(1)) window.history.replaceState(null, '', `${window.location.pathname}?${query}`);
+  }, [currency]);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const ids = companies.map((company) => company.company_id);
+  const detailHref = (id: number) => `/companies/${id}${asOf ? `?asOf=${asOf}` : ''}`;
+  const withoutHref = (id: number) => `${compareHref(ids.filter((other) => other !== id), asOf)}&currency=${currency}`;
+  const refs = companies.map(({ company_id, company_name, tsx_code }) => ({ company_id, company_name, tsx_code }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        <span>
+          Monetary values in {currency}. <span className="text-amber-600">*</span> converted from the reported currency.
+          In each row the <span className="rounded-sm bg-green-100 px-1 text-green-900">best</span> and{' '}
+          <span className="rounded-sm bg-red-100 px-1 text-red-900">worst</span> values are marked by the metric&apos;s
+          direction (↑ higher is better, ↓ lower is better).
+        </span>
+        <Button variant="outline" size="sm" className="ml-auto h-8" onClick={copyLink}>
+          {copied ? <Check className="mr-2 h-3 w-3" /> : <Link2 className="mr-2 h-3 w-3" />}
+          {copied ? 'Copied' : 'Copy link'}
+        </Button>
+      </div>
+
+      <section>
+        <h2 className="text-lg font-semibold mb-2">Share Price (rebased to 100)</h2>
+        <PriceChart
+          key={ids.join(',')} // Start over when a company is removed
+          company={refs[0]}
+          prices={prices}
+          exchangeRates={exchangeRates}
+          asOf={asOf}
+          initialPeers={refs.slice(1)}
+          maxPeers={MAX_COMPARE - 1}
+        />
+      </section>
+
+      <section className="overflow-x-auto rounded-md border">
+        <Table className="table-fixed" style={{ minWidth: 240 + companies.length * 160 }}>
+          <colgroup>
+            <col style={{ width: 240 }} />
+            {companies.map((company) => <col key={company.company_id} />)}
+          </colgroup>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="sticky left-0 z-10 bg-background">Metric</TableHead>
+              {converted.map((company) => (
+                <TableHead key={company.company_id} className="h-auto py-2 text-right align-top whitespace-normal">
+                  <div className="flex items-start justify-end gap-1">
+                    <Link href={detailHref(company.company_id)} className="font-semibold text-blue-600 hover:underline">
+                      {company.company_name}
+                    </Link>
+                    {companies.length > MIN_COMPARE && (
+                      <Link href={withoutHref(company.company_id)} title="Remove from comparison" className="text-muted-foreground hover:text-foreground">
+                        <X className="h-4 w-4" />
+                      </Link>
+                    )}
+                  </div>
+                  <div className="text-xs font-normal uppercase text-muted-foreground">{company.tsx_code}</div>
+                  {company.status && <div className="text-xs font-normal capitalize text-muted-foreground">{company.status}</div>}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sections.map((section) => (
+              <React.Fragment key={section.group}>
+                <TableRow className="bg-muted/50 hover:bg-muted/50">
+                  <TableCell colSpan={companies.length + 1} className="sticky left-0 font-semibold">
+                    {section.label}
+                  </TableCell>
+                </TableRow>
+                {section.rows.map((row) => (
+                  <TableRow key={row.metric.path}>
+                    <TableCell className="sticky left-0 z-10 bg-background whitespace-normal" title={describeMetric(row.metric)}>
+                      {row.metric.label} <span className="text-muted-foreground">{directionArrow(row.metric)}</span>
+                    </TableCell>
+                    {row.values.map((value, i) => {
+                      const conversion = converted[i].currency_conversions?.[row.metric.path];
+                      return (
+                        <TableCell
+                          key={converted[i].company_id}
+                          className={cn(
+                            'text-right tabular-nums',
+                            value === null && 'text-muted-foreground',
+                            value !== null && value === row.best && 'bg-green-100 text-green-900',
+                            value !== null && value === row.worst && 'bg-red-100 text-red-900'
+                          )}
+                          title={conversion ? describeConversion(conversion) : undefined}
+                        >
+                          {conversion?.rate === null ? 'n/a' : formatMetricValue(value, row.metric.format, currency)}
+                          {conversion && conversion.rate !== null && <sup className="ml-0.5 text-amber-600">*</sup>}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </React.Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+// src/app/companies/compare/page.tsx
+// Server component: 2-8 companies side by side (?ids=12,34,56, optionally &asOf=YYYY-MM-DD).
+// Loads them in one batched read, with the exchange rates and the first company's prices;
+// the client view converts to the reporting currency, ranks each metric and draws the price chart.
+
+import React from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Terminal } from 'lucide-react';
+import { getCompanyRepository } from '@/lib/data/repository';
+import { parseAsOf } from '@/lib/company-data';
+import { MAX_COMPARE, MIN_COMPARE, parseCompareIds } from '@/lib/comparison';
+import type { CompanyData, ExchangeRate, StockPrice } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ComparisonView } from './comparison-view'; // Client table and chart
+
+export const dynamic = 'force-dynamic';
+
+interface ComparePageProps {
+  searchParams: Promise<{ ids?: string | string[]; asOf?: string | string[] }>;
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { ids: idsParam, asOf: asOfParam } = await searchParams;
+  const ids = parseCompareIds(typeof idsParam === 'string' ? idsParam : '');
+  const asOfDate = typeof asOfParam === 'string' ? asOfParam : '';
+  const asOf = asOfDate ? parseAsOf(asOfDate) : null;
+
+  let companies: CompanyData[] = [];
+  let prices: StockPrice[] = [];
+  let exchangeRates: ExchangeRate[] = [];
+  let error: string | null = null;
+  if (ids.length >= MIN_COMPARE) {
+    try {
+      const repository = getCompanyRepository();
+      // One batched read for just these ids rather than loading every company
+      const [found, rates] = await Promise.all([repository.getCompanies(ids, { asOf }), repository.listExchangeRates()]);
+      const byId = new Map(found.map((company) => [company.company_id, company]));
+      companies = ids.flatMap((id) => byId.get(id) ?? []); // In the URL's order
+      exchangeRates = rates;
+      if (companies.length > 0) prices = await repository.listStockPrices([companies[0].company_id]);
+    } catch (err: unknown) {
+      console.error(`Error loading companies ${ids.join(',')} for comparison:`, err);
+      error = `Failed to load company data. ${err instanceof Error ? err.message : 'Unknown error'}. See server logs.`;
+    }
+  }
+  // Only known once the companies were looked up
+  const missing = ids.length >= MIN_COMPARE && !error ? ids.filter((id) => !companies.some((company) => company.company_id === id)) : [];
+  const backHref = asOf ? `/companies?asOf=${asOfDate}` : '/companies';
+
+  return (
+    <div className="w-full p-4 md:p-6 space-y-6">
+      <Link href={backHref} className="inline-flex items-center text-sm text-blue-600 hover:underline">
+        <ArrowLeft className="mr-1 h-4 w-4" /> All companies
+      </Link>
+      <h1 className="text-2xl md:text-3xl font-bold">Compare Companies</h1>
+      {asOf && <p className="text-xs text-muted-foreground">Records as they stood on {asOfDate}.</p>}
+
+      {error ? (
+        <Alert variant="destructive">
+          <Terminal className="h-4 w-4" />
+          <AlertTitle>Error Loading Data</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : companies.length < MIN_COMPARE ? (
+        <Alert>
+          <Terminal className="h-4 w-4" />
+          <AlertTitle>Nothing to compare</AlertTitle>
+          <AlertDescription>
+            Select {MIN_COMPARE} to {MAX_COMPARE} companies in the table and choose Compare.
+            {missing.length > 0 && ` Unknown company id(s): ${missing.join(', ')}.`}
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          {missing.length > 0 && (
+            <p className="text-sm text-muted-foreground">Unknown company id(s) left out: {missing.join(', ')}.</p>
+          )}
+          <ComparisonView companies={companies} prices={prices} exchangeRates={exchangeRates} asOf={asOf ? asOfDate : null} />
+        </>
+      )}
+    </div>
+  );
+}
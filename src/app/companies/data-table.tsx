@@ -1,24 +1,31 @@
 // src/app/companies/data-table.tsx
 'use client';
 
-import React, { useState, useRef, useMemo, useEffect } from 'react'; // Added useEffect
+import React, { useCallback, useEffect, useState, useRef } from 'react';
 import {
+  Column,
   ColumnDef,
   flexRender,
   getCoreRowModel,
   getSortedRowModel,
   getFilteredRowModel,
-  getPaginationRowModel, // Keep for potential future use
+  getFacetedRowModel,
+  getFacetedUniqueValues,
   ColumnFiltersState,
+  ColumnOrderState,
+  ColumnPinningState,
+  ColumnSizingState,
+  FilterFn,
+  Header,
   SortingState,
   VisibilityState,
   useReactTable,
   Row,
+  Table as TanstackTable,
 } from '@tanstack/react-table';
 import { useVirtualizer } from '@tanstack/react-virtual';
 
 import {
-  Table,
   TableBody,
   TableCell,
   TableHead,
@@ -30,30 +37,178 @@ import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
   DropdownMenuContent,
+  DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
-import { Settings2 } from 'lucide-react';
-import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { FilterX, ListFilter, Palette, Pin, PinOff, Settings2 } from 'lucide-react';
+import { AggregateKind, CellDisplayMode, TableViewState } from '@/types';
+import { cn } from '@/lib/utils';
+import { ExpressionScope } from '@/lib/expression';
+import { compileScreen } from '@/lib/filters';
+import { ExpressionInput } from './expression-input';
+import { DEFAULT_SPARKLINE_DAYS } from './price-sparkline';
+
+// Catalog label when there is one, else a prettified id
+function columnLabel<TData>(column: Column<TData, unknown>): string {
+  return (
+    column.columnDef.meta?.label ??
+    column.id.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase()).replace(/\./g, ' - ')
+  );
+}
+
+// Show or hide every hideable column under a group header at once. A group's own
+// visibility only follows its children, so the leaves are set individually.
+function setGroupVisibility<TData>(table: TanstackTable<TData>, group: Column<TData, unknown>, visible: boolean) {
+  const leaves = group.getLeafColumns().filter((column) => column.getCanHide());
+  table.setColumnVisibility((current) => ({ ...current, ...Object.fromEntries(leaves.map((column) => [column.id, visible])) }));
+}
+
+// Sticky offsets for pinned columns. A header is pinned when every leaf column under it
+// is pinned to the same side (see headerRows: groups are split at the pinned edges).
+function pinnedStyle<TData>(columns: Column<TData, unknown>[]): React.CSSProperties {
+  const side = columns[0]?.getIsPinned();
+  if (!side || columns.some((column) => column.getIsPinned() !== side)) return {};
+  const outer = side === 'left' ? columns[columns.length - 1] : columns[0];
+  return {
+    position: 'sticky',
+    left: side === 'left' ? columns[0].getStart('left') : undefined,
+    right: side === 'right' ? columns[columns.length - 1].getAfter('right') : undefined,
+    backgroundColor: 'var(--background)', // Opaque, scrolled columns pass underneath
+    // Edge line between the pinned block and the scrolling columns
+    boxShadow: outer.getIsLastColumn('left')
+      ? 'inset -1px 0 0 var(--border)'
+      : outer.getIsFirstColumn('right')
+        ? 'inset 1px 0 0 var(--border)'
+        : undefined,
+  };
+}
+
+// Header rows with left-pinned, scrolling and right-pinned headers built separately, so a
+// group straddling a pinned edge gets one header per side
+function headerRows<TData>(table: TanstackTable<TData>) {
+  const [left, center, right] = [table.getLeftHeaderGroups(), table.getCenterHeaderGroups(), table.getRightHeaderGroups()];
+  return center.map((headerGroup, depth) => ({
+    id: headerGroup.id,
+    headers: [...left[depth].headers, ...headerGroup.headers, ...right[depth].headers],
+  }));
+}
+
+// Visible leaf columns in display order: pinned left, scrolling, pinned right
+// (getVisibleLeafColumns ignores pinning)
+const displayedColumns = <TData,>(table: TanstackTable<TData>) => [
+  ...table.getLeftVisibleLeafColumns(),
+  ...table.getCenterVisibleLeafColumns(),
+  ...table.getRightVisibleLeafColumns(),
+];
+
+const leafColumns = <TData,>(header: Header<TData, unknown>) =>
+  header
+    .getLeafHeaders()
+    .filter((leaf) => leaf.subHeaders.length === 0)
+    .map((leaf) => leaf.column);
+
+// Drop one column onto another: it takes the target's place (before it when coming from
+// the right, after it when coming from the left) and the target's pinned side
+function moveColumn<TData>(table: TanstackTable<TData>, moved: Column<TData, unknown>, target: Column<TData, unknown>) {
+  if (moved.id === target.id) return;
+  const display = displayedColumns(table).map((column) => column.id);
+  const after = display.indexOf(moved.id) < display.indexOf(target.id);
+  const place = (ids: string[]) => {
+    const rest = ids.filter((id) => id !== moved.id);
+    const index = rest.indexOf(target.id) + (after ? 1 : 0);
+    return [...rest.slice(0, index), moved.id, ...rest.slice(index)];
+  };
+
+  const side = target.getIsPinned();
+  table.setColumnPinning(({ left = [], right = [] }) => ({
+    left: side === 'left' ? place(left) : left.filter((id) => id !== moved.id),
+    right: side === 'right' ? place(right) : right.filter((id) => id !== moved.id),
+  }));
+  // The full order as TanStack applies it: listed ids first, the rest in definition order
+  table.setColumnOrder((order) => {
+    const all = table.getAllLeafColumns().map((column) => column.id);
+    return place([...order.filter((id) => all.includes(id)), ...all.filter((id) => !order.includes(id))]);
+  });
+}
+
+// Pin menu shown on hover in each header (always, once the column is pinned)
+function ColumnPinMenu<TData>({ column }: { column: Column<TData, unknown> }) {
+  const pinned = column.getIsPinned();
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className={cn('h-6 w-6 p-0', pinned ? 'text-blue-600' : 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100')}
+          title={pinned ? `Pinned ${pinned}` : 'Pin column'}
+        >
+          <span className="sr-only">Pin column</span>
+          <Pin className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem disabled={pinned === 'left'} onClick={() => column.pin('left')}>
+          <Pin className="mr-2 h-3 w-3" /> Pin left
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={pinned === 'right'} onClick={() => column.pin('right')}>
+          <Pin className="mr-2 h-3 w-3" /> Pin right
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!pinned} onClick={() => column.pin(false)}>
+          <PinOff className="mr-2 h-3 w-3" /> Unpin
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   data: TData[];
+  initialState?: Partial<TableViewState>; // Starting layout/filters, e.g. from the URL or a saved view
+  onStateChange?: (state: TableViewState) => void; // Called whenever any part of the view changes
+  globalFilterFn?: FilterFn<TData>; // Evaluates the screen expression; no screen input without it
+  screenScope?: ExpressionScope; // Fields the screen may use, for validation and autocomplete
+  // Extra buttons next to Shading / Columns; a function gets the table (rows, selection, visible columns)
+  toolbarActions?: React.ReactNode | ((table: TanstackTable<TData>) => React.ReactNode);
 }
 
 export function DataTable<TData, TValue>({
   columns,
   data,
+  initialState = {},
+  onStateChange,
+  globalFilterFn,
+  screenScope,
+  toolbarActions,
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({
-    headquarters: false, // Keep headquarters hidden initially
-    // Add other columns to hide by default if desired
-  });
+  const [sorting, setSorting] = useState<SortingState>(initialState.sorting ?? []);
+  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>(initialState.columnFilters ?? []);
+  const [globalFilter, setGlobalFilter] = useState(initialState.globalFilter ?? ''); // Screen expression
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>(
+    initialState.columnVisibility ?? { headquarters: false } // Keep headquarters hidden initially
+  );
+  const [columnOrder, setColumnOrder] = useState<ColumnOrderState>(initialState.columnOrder ?? []);
+  const [columnSizing, setColumnSizing] = useState<ColumnSizingState>(initialState.columnSizing ?? {});
+  const [columnPinning, setColumnPinning] = useState<ColumnPinningState>(initialState.columnPinning ?? { left: [], right: [] });
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null); // Header being dragged to a new place
   const [rowSelection, setRowSelection] = useState({});
+  const [shading, setShading] = useState(false); // Percentile shading of metric cells
+  const [displayModes, setDisplayModes] = useState<Record<string, CellDisplayMode>>({});
+  const [aggregates, setAggregates] = useState<Record<string, AggregateKind>>({}); // Footer summary per column
+  const [sparklineDays, setSparklineDays] = useState(DEFAULT_SPARKLINE_DAYS);
+
+  const validateScreen = useCallback((source: string) => void compileScreen(source, screenScope), [screenScope]);
+
+  const setDisplayMode = useCallback((columnId: string, mode: CellDisplayMode) => {
+    setDisplayModes((current) => ({ ...current, [columnId]: mode }));
+  }, []);
+
+  const setAggregate = useCallback((columnId: string, kind: AggregateKind) => {
+    setAggregates((current) => ({ ...current, [columnId]: kind }));
+  }, []);
 
   const table = useReactTable({
     data,
@@ -63,17 +218,43 @@ export function DataTable<TData, TValue>({
     getSortedRowModel: getSortedRowModel(),
     onColumnFiltersChange: setColumnFilters,
     getFilteredRowModel: getFilteredRowModel(),
+    getFacetedRowModel: getFacetedRowModel(), // Rows left by the other columns' filters
+    getFacetedUniqueValues: getFacetedUniqueValues(), // Facet counts for status / exchange
+    onGlobalFilterChange: setGlobalFilter,
+    globalFilterFn,
+    // A screen tests the whole row, so run it against a single column rather than each one
+    getColumnCanGlobalFilter: (column) => column.id === 'company_name',
     onColumnVisibilityChange: setColumnVisibility,
+    onColumnOrderChange: setColumnOrder,
+    onColumnSizingChange: setColumnSizing,
+    onColumnPinningChange: setColumnPinning,
+    enableColumnResizing: true,
+    columnResizeMode: 'onChange', // Widths follow the pointer rather than applying on release
     onRowSelectionChange: setRowSelection,
     state: {
       sorting,
       columnFilters,
+      globalFilter,
       columnVisibility,
+      columnOrder,
+      columnSizing,
+      columnPinning,
       rowSelection,
     },
+    // Read by the metric cells, headers and footers, and the Price Trend column
+    meta: { shading, displayModes, setDisplayMode, aggregates, setAggregate, sparklineDays, setSparklineDays },
     // getPaginationRowModel: getPaginationRowModel(), // Keep commented out while using full virtual scroll
   });
 
+  // Report the view (not the row selection) so the page can sync the URL and save presets
+  useEffect(() => {
+    const { left = [], right = [] } = columnPinning;
+    onStateChange?.({ sorting, columnFilters, globalFilter, columnVisibility, columnOrder, columnSizing, columnPinning: { left, right } });
+  }, [onStateChange, sorting, columnFilters, globalFilter, columnVisibility, columnOrder, columnSizing, columnPinning]);
+
+  // Column filters other than the name search box, plus the screen
+  const activeFilterCount = columnFilters.filter((filter) => filter.id !== 'company_name').length + (globalFilter ? 1 : 0);
+
   // --- Virtualization Setup ---
   const tableContainerRef = useRef<HTMLDivElement>(null);
   const { rows } = table.getRowModel();
@@ -82,10 +263,14 @@ export function DataTable<TData, TValue>({
   // Inspect a rendered table row (<tr>) in dev tools and set this accurately
   const estimatedRowHeight = 60; // Example: Adjust this based on your inspection!
 
+  // Rows stay in the table flow between spacer rows (rather than absolutely positioned),
+  // so they share the header's column widths and sticky pinned cells; rendered rows are
+  // measured since values with a stored-figure note are taller
   const rowVirtualizer = useVirtualizer({
     count: rows.length,
     getScrollElement: () => tableContainerRef.current,
     estimateSize: () => estimatedRowHeight, // Use the variable
+    measureElement: (element) => element.getBoundingClientRect().height,
     overscan: 10,
   });
 
@@ -111,92 +296,190 @@ export function DataTable<TData, TValue>({
           }
           className="max-w-sm h-9" // Adjusted height
         />
+        {activeFilterCount > 0 && (
+          <Button
+            variant="ghost"
+            className="h-9"
+            onClick={() => {
+              table.setColumnFilters((filters) => filters.filter((filter) => filter.id === 'company_name'));
+              setGlobalFilter('');
+            }}
+          >
+            <FilterX className="mr-2 h-4 w-4" /> Clear {activeFilterCount} filter{activeFilterCount === 1 ? '' : 's'}
+          </Button>
+        )}
+        <span className="text-sm text-muted-foreground">
+          Showing {table.getFilteredRowModel().rows.length} of {table.getCoreRowModel().rows.length}
+        </span>
+        <div className="ml-auto" />
+        {typeof toolbarActions === 'function' ? toolbarActions(table) : toolbarActions}
+        <Button
+          variant={shading ? 'secondary' : 'outline'}
+          className="h-9"
+          onClick={() => setShading((on) => !on)}
+          aria-pressed={shading}
+          title="Shade metric cells by percentile among the filtered rows: green is better, red is worse"
+        >
+          <Palette className="mr-2 h-4 w-4" /> Shading
+        </Button>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
-            <Button variant="outline" className="ml-auto h-9"> {/* Adjusted height */}
+            <Button variant="outline" className="h-9"> {/* Adjusted height */}
               <Settings2 className="mr-2 h-4 w-4" /> Columns
             </Button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
+          <DropdownMenuContent align="end" className="max-h-[60vh] overflow-y-auto">
            <DropdownMenuLabel>Toggle Columns</DropdownMenuLabel>
-           <DropdownMenuSeparator />
-            {table
-              .getAllColumns()
-              .filter((column) => column.getCanHide())
-              .map((column) => {
-                return (
+            {/* Each group toggles all of its columns; the count is visible / total */}
+            {table.getAllColumns().map((column) => {
+              if (column.columns.length === 0) {
+                return column.getCanHide() ? (
                   <DropdownMenuCheckboxItem
                     key={column.id}
-                    className="capitalize"
                     checked={column.getIsVisible()}
                     onCheckedChange={(value) => column.toggleVisibility(!!value)}
+                    onSelect={(event) => event.preventDefault()} // Keep the menu open for more toggles
                   >
-                    {/* Improved Label Generation */}
-                    {column.id.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()).replace(/\./g, ' - ')}
+                    {columnLabel(column)}
                   </DropdownMenuCheckboxItem>
-                );
-              })}
+                ) : null;
+              }
+              const leaves = column.getLeafColumns().filter((leaf) => leaf.getCanHide());
+              const shown = leaves.filter((leaf) => leaf.getIsVisible()).length;
+              return (
+                <React.Fragment key={column.id}>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuCheckboxItem
+                    className="font-semibold"
+                    checked={shown === leaves.length}
+                    onCheckedChange={(value) => setGroupVisibility(table, column, !!value)}
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {columnLabel(column)}
+                    <span className="ml-auto pl-4 text-xs font-normal text-muted-foreground">
+                      {shown}/{leaves.length}
+                    </span>
+                  </DropdownMenuCheckboxItem>
+                  {leaves.map((leaf) => (
+                    <DropdownMenuCheckboxItem
+                      key={leaf.id}
+                      className="pl-12"
+                      checked={leaf.getIsVisible()}
+                      onCheckedChange={(value) => leaf.toggleVisibility(!!value)}
+                      onSelect={(event) => event.preventDefault()}
+                    >
+                      {columnLabel(leaf)}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </React.Fragment>
+              );
+            })}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+      {globalFilterFn && screenScope && (
+        <div className="flex pb-4">
+          <ExpressionInput
+            value={globalFilter}
+            scope={screenScope}
+            validate={validateScreen}
+            onApply={setGlobalFilter}
+            placeholder='Screen, e.g. status = "producer" AND costs.aisc_last_year < 1400'
+            icon={<ListFilter className="h-4 w-4 shrink-0 text-muted-foreground" />}
+          />
+        </div>
+      )}
 
       {/* --- Table Container with Virtual Scroll --- */}
-       <ScrollArea
-        ref={tableContainerRef}
-        className="rounded-md border h-[70vh]" // Fixed height is essential
-        style={{ overflowY: 'auto' }}
-      >
-        {/* Use getTotalSize() for accurate width calculation if columns have varying sizes */}
-        <Table style={{ width: table.getTotalSize() }}>
+      {/* One scroll container for both axes: the virtualizer listens to it and the sticky
+          header and pinned columns stick to it */}
+      <div ref={tableContainerRef} className="relative h-[70vh] overflow-auto rounded-md border">
+        {/* Fixed layout with a colgroup: widths come from the column sizes, not the group header row */}
+        <table data-slot="table" className="caption-bottom text-sm" style={{ width: table.getTotalSize(), tableLayout: 'fixed' }}>
+          <colgroup>
+            {displayedColumns(table).map((column) => (
+              <col key={column.id} style={{ width: column.getSize() }} />
+            ))}
+          </colgroup>
           <TableHeader
-            // Sticky header styling
-            style={{
-              position: 'sticky',
-              top: 0,
-              zIndex: 1,
-              // Use Shadcn theme variable for background
-              backgroundColor: 'hsl(var(--background))'
-             }}
+            // Sticky header styling, above the pinned body cells
+            style={{ position: 'sticky', top: 0, zIndex: 3, backgroundColor: 'var(--background)' }}
           >
-            {table.getHeaderGroups().map((headerGroup) => (
+            {/* Two rows: group headers (Company, Financials, ...) over the column headers */}
+            {headerRows(table).map((headerGroup) => (
               <TableRow key={headerGroup.id}>
-                {headerGroup.headers.map((header) => (
-                  <TableHead
-                     key={header.id}
-                     style={{
-                       width: header.getSize(), // Use defined column size
-                       // Sticky column styling (adjust IDs if needed)
-                       position: (header.column.id === 'select' || header.column.id === 'actions') ? 'sticky' : undefined,
-                       left: header.column.id === 'select' ? 0 : undefined,
-                       right: header.column.id === 'actions' ? 0 : undefined,
-                       zIndex: (header.column.id === 'select' || header.column.id === 'actions') ? 2 : 1,
-                       backgroundColor: 'inherit', // Ensures sticky header matches row bg
+                {headerGroup.headers.map((header) => {
+                  const isLeaf = header.subHeaders.length === 0;
+                  const { column } = header;
+                  // Leaf headers can be dragged onto another to move there (select/actions stay put)
+                  const movable = isLeaf && column.getCanPin();
+                  return (
+                    <TableHead
+                      key={header.id}
+                      className={cn(
+                        'group',
+                        !isLeaf && 'h-8',
+                        !isLeaf && !header.isPlaceholder && 'border-x text-center text-xs font-semibold uppercase tracking-wide text-muted-foreground',
+                        draggedColumn && movable && draggedColumn !== column.id && 'hover:bg-accent'
+                      )}
+                      style={{
+                        position: 'relative', // Anchors the resize handle; pinned headers override with sticky
+                        zIndex: column.getIsPinned() ? 2 : 1,
+                        backgroundColor: 'var(--background)',
+                        overflow: 'hidden',
+                        ...pinnedStyle(leafColumns(header)),
                       }}
                       colSpan={header.colSpan}
+                      draggable={movable}
+                      onDragStart={(event) => {
+                        // A drag that starts on the resize handle is a resize
+                        if (table.getState().columnSizingInfo.isResizingColumn) return event.preventDefault();
+                        event.dataTransfer.effectAllowed = 'move';
+                        setDraggedColumn(column.id);
+                      }}
+                      onDragEnd={() => setDraggedColumn(null)}
+                      onDragOver={(event) => {
+                        if (draggedColumn && movable) event.preventDefault(); // Allow the drop
+                      }}
+                      onDrop={(event) => {
+                        event.preventDefault();
+                        const moved = draggedColumn ? table.getColumn(draggedColumn) : undefined;
+                        if (moved && movable) moveColumn(table, moved, column);
+                        setDraggedColumn(null);
+                      }}
                     >
-                    {header.isPlaceholder
-                      ? null
-                      : flexRender(
-                          header.column.columnDef.header,
-                          header.getContext()
-                        )}
-                  </TableHead>
-                ))}
+                      {header.isPlaceholder ? null : isLeaf && column.getCanPin() ? (
+                        <div className="flex items-center">
+                          {flexRender(column.columnDef.header, header.getContext())}
+                          <ColumnPinMenu column={column} />
+                        </div>
+                      ) : (
+                        flexRender(column.columnDef.header, header.getContext())
+                      )}
+                      {isLeaf && column.getCanResize() && (
+                        <div
+                          onMouseDown={header.getResizeHandler()}
+                          onTouchStart={header.getResizeHandler()}
+                          onDoubleClick={() => column.resetSize()}
+                          title="Drag to resize, double-click to reset"
+                          className={cn(
+                            'absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none touch-none hover:bg-border',
+                            column.getIsResizing() && 'bg-blue-600'
+                          )}
+                        />
+                      )}
+                    </TableHead>
+                  );
+                })}
               </TableRow>
             ))}
           </TableHeader>
-          <TableBody
-             // Styling for virtualizer positioning context
-             style={{
-                height: `${rowVirtualizer.getTotalSize()}px`,
-                position: 'relative',
-              }}
-          >
+          <TableBody>
             {/* Top padding */}
             {paddingTop > 0 && (
-              <TableRow style={{ height: `${paddingTop}px` }}>
-                <TableCell colSpan={columns.length} />
-              </TableRow>
+              <tr style={{ height: `${paddingTop}px` }}>
+                <td colSpan={table.getVisibleLeafColumns().length} />
+              </tr>
             )}
 
             {/* Render only virtual rows */}
@@ -205,33 +488,20 @@ export function DataTable<TData, TValue>({
               return (
                 <TableRow
                   key={row.id}
+                  data-index={virtualRow.index} // Lets the virtualizer match the measured element
+                  ref={rowVirtualizer.measureElement}
                   data-state={row.getIsSelected() && 'selected'}
                   // Apply hover and zebra striping from Shadcn table styles
                   className="hover:bg-muted/50 data-[state=selected]:bg-muted"
-                   style={{
-                      position: 'absolute',
-                      top: 0,
-                      left: 0,
-                      width: '100%',
-                      height: `${virtualRow.size}px`,
-                      transform: `translateY(${virtualRow.start}px)`,
-                    }}
                 >
                   {row.getVisibleCells().map((cell) => (
                     <TableCell
                       key={cell.id}
-                       style={{
-                         width: cell.column.getSize(),
-                         // REMOVED display:flex - Cells should behave like normal table cells
-                         // Sticky column styling for cells
-                         position: (cell.column.id === 'select' || cell.column.id === 'actions') ? 'sticky' : undefined,
-                         left: cell.column.id === 'select' ? 0 : undefined,
-                         right: cell.column.id === 'actions' ? 0 : undefined,
-                         zIndex: (cell.column.id === 'select' || cell.column.id === 'actions') ? 1 : 0,
-                         backgroundColor: 'inherit', // Ensure sticky cells match row background
-                        }}
-                        // Add padding class directly for consistency if needed, or handle in column def
-                        // className="p-2" // Example padding
+                      style={{
+                        overflow: 'hidden', // Narrowed columns clip rather than push the others
+                        zIndex: cell.column.getIsPinned() ? 1 : undefined,
+                        ...pinnedStyle([cell.column]),
+                      }}
                     >
                       {flexRender(
                         cell.column.columnDef.cell,
@@ -243,16 +513,31 @@ export function DataTable<TData, TValue>({
               );
             })}
 
-             {/* Bottom padding */}
+            {/* Bottom padding */}
             {paddingBottom > 0 && (
-              <TableRow style={{ height: `${paddingBottom}px` }}>
-                 <TableCell colSpan={columns.length} />
-              </TableRow>
+              <tr style={{ height: `${paddingBottom}px` }}>
+                <td colSpan={table.getVisibleLeafColumns().length} />
+              </tr>
             )}
           </TableBody>
-        </Table>
-        <ScrollBar orientation="horizontal" />
-       </ScrollArea>
+          {/* Summary of the filtered rows, kept in view at the bottom */}
+          {table.getAllLeafColumns().some((column) => column.columnDef.footer) && (
+            <tfoot style={{ position: 'sticky', bottom: 0, zIndex: 3, backgroundColor: 'var(--background)' }}>
+              <tr className="border-t font-medium">
+                {headerRows(table).at(-1)!.headers.map((header) => (
+                  <td
+                    key={header.id}
+                    className="p-2 align-top"
+                    style={{ overflow: 'hidden', backgroundColor: 'var(--background)', ...pinnedStyle([header.column]) }}
+                  >
+                    {flexRender(header.column.columnDef.footer, header.getContext())}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+// src/app/companies/export-menu.tsx
+'use client';
+
+// Toolbar Export menu: writes the selected rows (or, with nothing selected, the filtered
+// rows in their current order) with the visible columns to CSV, Excel or JSON.
+import React from 'react';
+import { Table } from '@tanstack/react-table';
+import { Download } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { CompanyData } from '@/types';
+import {
+  buildCsv,
+  buildExportXlsx,
+  buildJson,
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportFormat,
+  ExportRequest,
+  exportFileName,
+  metricExportColumn,
+} from '@/lib/export';
+import { getColumnValue } from '@/lib/filters';
+
+// Columns that hold controls or graphics rather than data
+const NON_DATA_COLUMNS = ['select', 'actions', 'price_sparkline'];
+
+interface ExportMenuProps {
+  table: Table<CompanyData>;
+  currency: string;
+  asOf: string | null;
+}
+
+function download(content: string | Uint8Array, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportMenu({ table, currency, asOf }: ExportMenuProps) {
+  // Displayed rows in display order; the selection keeps that order
+  const rows = table.getRowModel().rows;
+  const selected = rows.filter((row) => row.getIsSelected());
+  const useSelection = selected.length > 0;
+
+  const exportAs = (format: ExportFormat) => {
+    // Visible columns in display order, pinned ones at their edges
+    const columns: ExportColumn[] = [
+      ...table.getLeftVisibleLeafColumns(),
+      ...table.getCenterVisibleLeafColumns(),
+      ...table.getRightVisibleLeafColumns(),
+    ]
+      .filter((column) => !NON_DATA_COLUMNS.includes(column.id))
+      .map((column) => {
+        const meta = column.columnDef.meta;
+        if (meta?.metric) return metricExportColumn(meta.metric, currency);
+        const value = meta?.exportValue ?? ((company: CompanyData) => {
+          const v = getColumnValue(company, column.id);
+          return typeof v === 'number' || typeof v === 'string' ? v : null;
+        });
+        return { id: column.id, label: meta?.label ?? column.id, unit: null, format: null, value };
+      });
+
+    const request: ExportRequest = {
+      companies: (useSelection ? selected : rows).map((row) => row.original),
+      columns,
+      currency,
+      asOf,
+      selection: useSelection ? 'selected' : 'filtered',
+      screen: table.getState().globalFilter || undefined,
+    };
+    const { mimeType } = EXPORT_FORMATS.find((option) => option.format === format)!;
+    const content = format === 'csv' ? buildCsv(request) : format === 'xlsx' ? buildExportXlsx(request) : buildJson(request);
+    download(content, exportFileName(format, currency), mimeType);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="h-9">
+          <Download className="mr-2 h-4 w-4" /> Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">
+          {useSelection ? `${selected.length} selected` : `${rows.length} filtered`} rows, visible columns, {currency}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => exportAs(format)} disabled={rows.length === 0}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
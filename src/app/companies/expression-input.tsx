@@ -0,0 +1,179 @@
+// src/app/companies/expression-input.tsx
+'use client';
+
+// Input for expressions (src/lib/expression.ts): the table's screen, e.g.
+//   status = "producer" AND costs.aisc_last_year < 1400
+// and calculated column formulas. Field/keyword/value autocomplete, and the error
+// position marked under the text. With onApply, Enter applies the expression.
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { CompletionItem, ExpressionError, ExpressionScope, getCompletions } from '@/lib/expression';
+
+interface ExpressionInputProps {
+  value: string; // Applied expression
+  scope: ExpressionScope; // Fields for autocomplete
+  validate: (source: string) => void; // Throws ExpressionError for an invalid expression
+  onChange?: (source: string) => void; // Every edit
+  onApply?: (source: string) => void; // Enter or Clear
+  placeholder?: string;
+  icon?: React.ReactNode;
+  id?: string;
+}
+
+const KIND_LABELS: Record<CompletionItem['kind'], string> = {
+  field: 'field',
+  keyword: 'keyword',
+  function: 'fn',
+  value: 'value',
+};
+
+// Run the validator; returns the error to show, if any
+function check(source: string, validate: (source: string) => void): ExpressionError | null {
+  if (!source.trim()) return null;
+  try {
+    validate(source);
+    return null;
+  } catch (err) {
+    return err instanceof ExpressionError ? err : new ExpressionError(String(err), 0, source.length);
+  }
+}
+
+export function ExpressionInput({ value, scope, validate, onChange, onApply, placeholder, icon, id }: ExpressionInputProps) {
+  const [draft, setDraft] = useState(value);
+  const [cursor, setCursor] = useState(0);
+  const [open, setOpen] = useState(false); // Suggestion list
+  const [active, setActive] = useState(-1); // Highlighted suggestion; -1 until the arrows are used
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Follow outside changes to the value (Clear filters, saved views)
+  useEffect(() => setDraft(value), [value]);
+
+  const error = useMemo(() => check(draft, validate), [draft, validate]);
+  const completions = useMemo(() => (open ? getCompletions(draft, cursor, scope) : null), [open, draft, cursor, scope]);
+  const items = completions?.items ?? [];
+
+  const edit = (text: string, position: number) => {
+    setDraft(text);
+    onChange?.(text);
+    setCursor(position);
+    setActive(-1);
+    setOpen(true);
+  };
+
+  const accept = (item: CompletionItem) => {
+    if (!completions) return;
+    const text = draft.slice(0, completions.from) + item.insert + draft.slice(completions.to);
+    const position = completions.from + item.insert.length;
+    edit(text, position);
+    // Move the caret after React has written the new value
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const apply = () => {
+    if (error || !onApply) return;
+    setOpen(false);
+    onApply(draft.trim());
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const listShown = open && items.length > 0;
+    if (listShown && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActive((current) => (current + step + items.length) % items.length);
+    } else if (listShown && event.key === 'Tab') {
+      event.preventDefault();
+      accept(items[Math.max(active, 0)]);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (listShown && active >= 0) accept(items[active]);
+      else apply();
+    } else if (event.key === 'Escape') {
+      if (listShown) setOpen(false);
+      else if (onApply) setDraft(value); // Second Escape discards the edit
+    }
+  };
+
+  const pending = onApply && draft.trim() !== value && !error;
+
+  return (
+    <div className="relative flex-1">
+      <div className="flex items-center gap-2">
+        {icon}
+        <Input
+          id={id}
+          ref={inputRef}
+          value={draft}
+          placeholder={placeholder}
+          className="h-9 font-mono text-xs md:text-xs"
+          aria-invalid={error ? true : undefined}
+          spellCheck={false}
+          autoComplete="off"
+          onChange={(event) => edit(event.target.value, event.target.selectionStart ?? event.target.value.length)}
+          onSelect={(event) => setCursor(event.currentTarget.selectionStart ?? 0)}
+          onKeyDown={onKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+        />
+        {pending && <span className="shrink-0 text-xs text-muted-foreground">Enter to apply</span>}
+        {onApply && (value || draft) && (
+          <Button
+            variant="ghost"
+            className="h-8 w-8 p-0"
+            title="Clear"
+            onClick={() => {
+              setDraft('');
+              onApply('');
+            }}
+          >
+            <span className="sr-only">Clear</span>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {open && items.length > 0 && (
+        <ul
+          className={cn('absolute top-10 z-20 max-h-64 w-[32rem] max-w-[90vw] overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md', icon ? 'left-6' : 'left-0')}
+          role="listbox"
+        >
+          {items.map((item, i) => (
+            <li
+              key={`${item.kind}-${item.label}`}
+              role="option"
+              aria-selected={i === active}
+              className={cn('flex cursor-pointer items-baseline gap-2 rounded-sm px-2 py-1 text-xs', i === active && 'bg-accent')}
+              onMouseDown={(event) => event.preventDefault()} // Keep focus in the input
+              onClick={() => accept(item)}
+              onMouseEnter={() => setActive(i)}
+            >
+              <span className="w-12 shrink-0 text-muted-foreground">{KIND_LABELS[item.kind]}</span>
+              <span className="font-mono">{item.label}</span>
+              {item.detail && <span className="truncate text-muted-foreground">{item.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <div className={cn('mt-1 text-xs', icon && 'pl-6')}>
+          {/* The expression again with the offending range underlined */}
+          <pre className="whitespace-pre-wrap font-mono">
+            {draft.slice(0, error.start)}
+            <span className="bg-destructive/15 text-destructive underline decoration-wavy">
+              {draft.slice(error.start, error.end) || ' '}
+            </span>
+            {draft.slice(error.end)}
+          </pre>
+          <p className="text-destructive">
+            Column {error.start + 1}: {error.message}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// src/app/companies/loading.tsx
+import { Skeleton } from "@/components/ui/skeleton"; // Shadcn Skeleton for loading
+
+// Skeleton shown while the server component fetches data
+export default function Loading() {
+  return (
+    <div className="w-full p-4 md:p-6">
+      <h1 className="text-2xl md:text-3xl font-bold mb-6">Mining Companies</h1>
+      <div className="space-y-4">
+          {/* Skeleton for Toolbar */}
+          <div className="flex items-center py-4 gap-2">
+              <Skeleton className="h-9 w-[250px]" />
+              <Skeleton className="h-9 w-[100px] ml-auto" />
+          </div>
+          {/* Skeleton for Table */}
+          <div className="rounded-md border">
+              <Skeleton className="h-12 w-full" /> {/* Header */}
+              {[...Array(10)].map((_, i) => ( // Show 10 skeleton rows
+                  <Skeleton key={i} className="h-12 w-full" />
+              ))}
+          </div>
+      </div>
+    </div>
+  );
+}
@@ -1,191 +1,64 @@
 // src/app/companies/page.tsx
-'use client'; // This page requires client-side interactivity
-
-import React, { useEffect, useState, useCallback } from 'react';
-import { createClient } from '@/lib/supabase/client'; // Your Supabase client
-import { CompanyData } from '@/types'; // Your data types (ensure this path is correct)
-import { DataTable } from './data-table'; // The table component
-import { columns } from './columns'; // The column definitions
+// Server component: loads companies through the configured data source
+// (Supabase or local CSVs, see src/lib/data/repository.ts) and hands them to the client table.
+
+import React from 'react';
+import Link from 'next/link';
+import { CompanyResult, getCompanyRepository } from '@/lib/data/repository';
+import type { ExchangeRate } from '@/types';
+import { formatIssue } from '@/lib/validation';
+import { parseAsOf } from '@/lib/company-data';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { CompaniesTable } from './companies-table'; // Client wrapper around DataTable + columns
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"; // Shadcn Alert for errors
-import { Skeleton } from "@/components/ui/skeleton"; // Shadcn Skeleton for loading
 import { Terminal } from "lucide-react"; // Icon for Alert
 
-// Define the structure for the default objects more explicitly, matching CompanyData structure
-const defaultFinancials: CompanyData['financials'] = { market_cap_value: null, market_cap_currency: null, cash_value: null, enterprise_value_value: null, debt_value: null };
-const defaultMineralEstimates: CompanyData['mineral_estimates'] = { reserves_total_aueq_moz: null, resources_total_aueq_moz: null };
-const defaultProduction: CompanyData['production'] = { current_production_total_aueq_koz: null };
-const defaultCosts: CompanyData['costs'] = { aisc_last_year: null, aisc_last_year_currency: null };
-const defaultValuationMetrics: CompanyData['valuation_metrics'] = { mkt_cap_per_resource_oz_all: null, ev_per_resource_oz_all: null };
-
-// Define the columns we want to select from Supabase
-// Include fields needed now and potentially for future filtering/scoring
-const SELECT_QUERY = `
-  company_id,
-  tsx_code,
-  company_name,
-  status,
-  headquarters,
-  financials (
-    market_cap_value,
-    market_cap_currency,
-    cash_value,
-    cash_currency,
-    enterprise_value_value,
-    enterprise_value_currency,
-    debt_value
-  ),
-  mineral_estimates (
-    reserves_total_aueq_moz,
-    resources_total_aueq_moz
-  ),
-  production (
-    current_production_total_aueq_koz
-  ),
-  costs (
-    aisc_last_year,
-    aisc_last_year_currency
-  ),
-  valuation_metrics (
-     mkt_cap_per_resource_oz_all,
-     ev_per_resource_oz_all
-  )
-`;
-
-
-export default function CompaniesPage() {
-  const [rawData, setRawData] = useState<any[]>([]); // Store raw fetched data
-  const [formattedData, setFormattedData] = useState<CompanyData[]>([]); // Store processed data for table
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const supabase = createClient();
-
-  // Function to format the raw data fetched from Supabase
-  // Applies the fix for nested arrays and ensures type consistency
-  const formatFetchedData = useCallback((rawData: any[]): CompanyData[] => {
-    return rawData?.map((company): CompanyData => {
-        // Access the first element of related arrays, or use default object
-        const financialsData = company.financials?.[0];
-        const mineralEstimatesData = company.mineral_estimates?.[0];
-        const productionData = company.production?.[0];
-        const costsData = company.costs?.[0];
-        const valuationMetricsData = company.valuation_metrics?.[0];
-
-        return {
-          // Spread base company fields
-          company_id: company.company_id,
-          tsx_code: company.tsx_code,
-          company_name: company.company_name,
-          status: company.status,
-          headquarters: company.headquarters,
-
-          // Assign processed nested data or defaults
-          financials: financialsData ? {
-            market_cap_value: financialsData.market_cap_value ?? null,
-            market_cap_currency: financialsData.market_cap_currency ?? null,
-            cash_value: financialsData.cash_value ?? null,
-            cash_currency: financialsData.cash_currency ?? null, // Ensure field exists if selected
-            enterprise_value_value: financialsData.enterprise_value_value ?? null,
-            enterprise_value_currency: financialsData.enterprise_value_currency ?? null, // Ensure field exists
-            debt_value: financialsData.debt_value ?? null, // Ensure field exists
-          } : defaultFinancials,
-
-          mineral_estimates: mineralEstimatesData ? {
-             reserves_total_aueq_moz: mineralEstimatesData.reserves_total_aueq_moz ?? null,
-             resources_total_aueq_moz: mineralEstimatesData.resources_total_aueq_moz ?? null,
-          } : defaultMineralEstimates,
-
-          production: productionData ? {
-              current_production_total_aueq_koz: productionData.current_production_total_aueq_koz ?? null,
-          } : defaultProduction,
-
-          costs: costsData ? {
-             aisc_last_year: costsData.aisc_last_year ?? null,
-             aisc_last_year_currency: costsData.aisc_last_year_currency ?? null,
-          } : defaultCosts,
-
-          valuation_metrics: valuationMetricsData ? {
-              mkt_cap_per_resource_oz_all: valuationMetricsData.mkt_cap_per_resource_oz_all ?? null,
-              ev_per_resource_oz_all: valuationMetricsData.ev_per_resource_oz_all ?? null,
-          } : defaultValuationMetrics,
-        };
-    }) || [];
-  }, []); // Empty dependency array as format logic doesn't depend on external state/props
-
-  // Fetch data on component mount
-  useEffect(() => {
-    const fetchCompanies = async () => {
-      setIsLoading(true);
-      setError(null);
-      setRawData([]); // Clear previous raw data
-      setFormattedData([]); // Clear previous formatted data
-
-      try {
-        const { data: companiesData, error: fetchError } = await supabase
-          .from('companies')
-          .select(SELECT_QUERY) // Use the defined query string
-          .order('company_name', { ascending: true });
-
-        if (fetchError) {
-          // Throw error to be caught by the catch block
-          throw fetchError;
-        }
-
-        if (companiesData) {
-          setRawData(companiesData); // Store raw data
-          const processedData = formatFetchedData(companiesData); // Format the data
-          setFormattedData(processedData); // Set formatted data for the table
-
-          // --- DEBUGGING LOG (Confirm structure AFTER formatting fix) ---
-           if (processedData.length > 0) {
-               console.log("Formatted Data Check (First Row - Post-Formatting):", JSON.stringify(processedData[0], null, 2));
-           } else {
-               console.log("No data available after formatting.");
-           }
-          // --- END DEBUGGING LOG ---
-
-        } else {
-          console.log("No company data received from Supabase.");
-          setFormattedData([]); // Ensure empty array if no data
-        }
-
-      } catch (err: any) {
-        console.error('Error fetching or processing company data:', err);
-        setError(`Failed to load company data. ${err.message || 'Unknown error'}. See console.`);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchCompanies();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [supabase, formatFetchedData]); // Include formatFetchedData (stable due to useCallback)
-
-  // Render Skeleton Loading state
-  const renderLoadingSkeleton = () => (
-      <div className="space-y-4">
-          {/* Skeleton for Toolbar */}
-          <div className="flex items-center py-4 gap-2">
-              <Skeleton className="h-9 w-[250px]" />
-              <Skeleton className="h-9 w-[100px] ml-auto" />
-          </div>
-          {/* Skeleton for Table */}
-          <div className="rounded-md border">
-              <Skeleton className="h-12 w-full" /> {/* Header */}
-              {[...Array(10)].map((_, i) => ( // Show 10 skeleton rows
-                  <Skeleton key={i} className="h-12 w-full" />
-              ))}
-          </div>
-      </div>
-  );
+// Always read fresh data; the source may change without a rebuild
+export const dynamic = 'force-dynamic';
+
+interface CompaniesPageProps {
+  searchParams: Promise<{ asOf?: string | string[] }>;
+}
+
+export default async function CompaniesPage({ searchParams }: CompaniesPageProps) {
+  let result: CompanyResult | null = null;
+  let exchangeRates: ExchangeRate[] = [];
+  let error: string | null = null;
+
+  // ?asOf=YYYY-MM-DD shows each company's records as they stood at the end of that day
+  const { asOf: asOfParam } = await searchParams;
+  const asOfDate = typeof asOfParam === 'string' ? asOfParam : '';
+  const asOf = asOfDate ? parseAsOf(asOfDate) : null;
+
+  try {
+    const repository = getCompanyRepository();
+    [result, exchangeRates] = await Promise.all([repository.listCompanies({ asOf }), repository.listExchangeRates()]);
+    if (result.issues.length > 0) {
+      console.warn(`${result.issues.length} field(s) failed validation:\n${result.issues.map(formatIssue).join('\n')}`);
+    }
+  } catch (err: unknown) {
+    console.error('Error fetching or processing company data:', err);
+    error = `Failed to load company data. ${err instanceof Error ? err.message : 'Unknown error'}. See server logs.`;
+  }
 
   return (
     <div className="w-full p-4 md:p-6"> {/* Added padding */}
       <h1 className="text-2xl md:text-3xl font-bold mb-6">Mining Companies</h1>
 
-      {/* Display Loading Skeleton, Error Alert, or Data Table */}
-      {isLoading ? (
-          renderLoadingSkeleton()
-       ) : error ? (
+      {/* Plain GET form: submitting reloads the page with ?asOf=... */}
+      <form className="flex items-center gap-2 mb-4 text-sm" method="get">
+        <label htmlFor="asOf" className="text-muted-foreground">Data as of</label>
+        <Input id="asOf" name="asOf" type="date" defaultValue={asOfDate} className="w-44 h-8" />
+        <Button type="submit" variant="outline" size="sm">Apply</Button>
+        {asOfDate && (
+          <Link href="/companies" className="text-blue-600 hover:underline">Latest</Link>
+        )}
+        {asOfDate && !asOf && <span className="text-destructive">Invalid date, showing latest records</span>}
+      </form>
+
+      {/* Display Error Alert or Data Table (loading skeleton lives in loading.tsx) */}
+      {error || !result ? (
           <Alert variant="destructive">
               <Terminal className="h-4 w-4" />
               <AlertTitle>Error Loading Data</AlertTitle>
@@ -194,9 +67,24 @@ export default function CompaniesPage() {
               </AlertDescription>
           </Alert>
        ) : (
-         // Pass the correctly formatted data to the table
-         <DataTable columns={columns} data={formattedData} />
+         <>
+           {result.issues.length > 0 && (
+             <Alert className="mb-4">
+                 <Terminal className="h-4 w-4" />
+                 <AlertTitle>{result.issues.length} field(s) failed validation</AlertTitle>
+                 <AlertDescription>
+                   <ul className="list-disc pl-4 max-h-32 overflow-y-auto text-xs">
+                     {result.issues.slice(0, 20).map((issue, i) => (
+                       <li key={i}>{formatIssue(issue)}</li>
+                     ))}
+                   </ul>
+                   {result.issues.length > 20 && <p className="text-xs">...and {result.issues.length - 20} more. See server logs.</p>}
+                 </AlertDescription>
+             </Alert>
+           )}
+           <CompaniesTable data={result.companies} exchangeRates={exchangeRates} asOf={asOf} />
+         </>
        )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+// src/app/companies/price-sparkline.tsx
+'use client';
+
+// Price Trend cell: a sparkline of the company's last N days of stock_prices, green when the
+// price rose over the window and red when it fell. Cells only mount for the rows the virtualizer
+// renders and read the shared cache in src/lib/price-store.ts, so scrolling loads the rows
+// coming into view with one batched request and never refetches a series.
+import React, { useMemo } from 'react';
+import { usePriceEntry } from '@/lib/price-store';
+import { dailyPrices, daysBefore, PricePoint, slicePoints } from '@/lib/stock-prices';
+import { formatNumber } from '@/lib/utils';
+import type { StockPrice } from '@/types';
+
+// Window choices in the column header, in calendar days
+export const SPARKLINE_DAYS = [7, 30, 90, 365];
+export const DEFAULT_SPARKLINE_DAYS = 30;
+
+const WIDTH = 96;
+const HEIGHT = 24;
+
+// Daily closes in the last `days` days, in the latest quote currency
+function recentPoints(prices: StockPrice[], days: number): PricePoint[] {
+  const daily = dailyPrices(prices.filter((price) => price.price_value !== null));
+  const last = daily.at(-1);
+  if (!last) return [];
+  const points = daily
+    .filter((price) => price.price_currency === last.price_currency)
+    .map((price) => ({ date: price.price_date.slice(0, 10), value: price.price_value! }));
+  return slicePoints(points, daysBefore(points.at(-1)!.date, days), null);
+}
+
+export function PriceSparkline({ companyId, days }: { companyId: number; days: number }) {
+  const entry = usePriceEntry(companyId);
+  const points = useMemo(() => (entry?.status === 'ready' ? recentPoints(entry.prices, days) : []), [entry, days]);
+
+  if (!entry || entry.status === 'loading') return <div className="h-6 w-24 animate-pulse rounded bg-muted" />;
+  if (entry.status === 'error') return <div className="text-xs text-muted-foreground" title={entry.message}>n/a</div>;
+  if (points.length < 2) return <div className="text-muted-foreground" title={`Fewer than two prices in the last ${days} days`}>-</div>;
+
+  // Highest price at the top; 1px margins keep the stroke inside, a flat series sits mid-height
+  const values = points.map(({ value }) => value);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const y = (value: number) => (high === low ? HEIGHT / 2 : HEIGHT - 1 - ((value - low) / (high - low)) * (HEIGHT - 2));
+  const coordinates = points
+    .map(({ value }, i) => `${((i / (points.length - 1)) * WIDTH).toFixed(1)},${y(value).toFixed(1)}`)
+    .join(' ');
+
+  const first = points[0];
+  const last = points.at(-1)!;
+  const change = (last.value / first.value - 1) * 100;
+  const color = change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-muted-foreground';
+
+  return (
+    <svg
+      width={WIDTH}
+      height={HEIGHT}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className={color}
+      role="img"
+      aria-label={`${formatNumber(change, 1)}% over ${days} days`}
+    >
+      <title>{`${first.date} to ${last.date}: ${change > 0 ? '+' : ''}${formatNumber(change, 1)}% (${points.length} prices)`}</title>
+      <polyline points={coordinates} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+}
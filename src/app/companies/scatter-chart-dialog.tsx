@@ -0,0 +1,193 @@
+// src/app/companies/scatter-chart-dialog.tsx
+'use client';
+
+// Toolbar Chart action: a scatter plot of the table's filtered rows (so it always shows what
+// the filters and screen select) on two metrics picked from the catalog, each axis linear or
+// log, one colour per status. Values are the table's, already in the reporting currency.
+import React, { useMemo, useState } from 'react';
+import { Table } from '@tanstack/react-table';
+import { Chart as ChartJS, ChartOptions, Legend, LinearScale, LogarithmicScale, PointElement, Tooltip } from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+import { ChartScatter, ChevronDown } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { describeMetric, directionArrow, formatMetricValue, getMetricOptions, getMetricValue } from '@/lib/metrics';
+import type { CompanyData, MetricConfig } from '@/types';
+
+ChartJS.register(LinearScale, LogarithmicScale, PointElement, Tooltip, Legend);
+
+// Valuation per precious ounce on both axes, as in the original scatter screen
+const DEFAULT_X = 'valuation_metrics.ev_per_resource_oz_precious';
+const DEFAULT_Y = 'valuation_metrics.mkt_cap_per_reserve_oz_precious';
+
+const STATUS_COLORS: Record<string, string> = { producer: '#16a34a', developer: '#2563eb', explorer: '#7c3aed' };
+const OTHER_COLOR = '#6b7280';
+
+type Scale = 'linear' | 'log';
+
+interface ScatterChartDialogProps {
+  table: Table<CompanyData>;
+  metrics: MetricConfig[]; // Catalog plus calculated columns
+  currency: string;
+}
+
+// One axis: metric picker (grouped like the catalog) and linear / log switch
+function AxisPicker({
+  axis,
+  metrics,
+  value,
+  scale,
+  onChange,
+  onScaleChange,
+}: {
+  axis: string;
+  metrics: MetricConfig[];
+  value: MetricConfig;
+  scale: Scale;
+  onChange: (path: string) => void;
+  onScaleChange: (scale: Scale) => void;
+}) {
+  const groups = useMemo(() => getMetricOptions(metrics), [metrics]);
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-muted-foreground">{axis}</span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8" title={describeMetric(value)}>
+            {value.label} {directionArrow(value)} <ChevronDown className="ml-1 h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-[50vh] overflow-y-auto">
+          <DropdownMenuRadioGroup value={value.path} onValueChange={onChange}>
+            {groups.map((group, i) => (
+              <React.Fragment key={group.group}>
+                {i > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuLabel>{group.label}</DropdownMenuLabel>
+                {group.options.map((option) => (
+                  <DropdownMenuRadioItem key={option.value} value={option.value} title={option.description}>
+                    {option.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </React.Fragment>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <div className="flex gap-1">
+        {(['linear', 'log'] as const).map((option) => (
+          <Button key={option} variant={scale === option ? 'secondary' : 'ghost'} size="sm" className="h-8 px-2 capitalize" onClick={() => onScaleChange(option)}>
+            {option}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ScatterChartDialog({ table, metrics, currency }: ScatterChartDialogProps) {
+  const byPath = useMemo(() => new Map(metrics.map((metric) => [metric.path, metric])), [metrics]);
+  const [xPath, setXPath] = useState(DEFAULT_X);
+  const [yPath, setYPath] = useState(DEFAULT_Y);
+  const [xScale, setXScale] = useState<Scale>('log');
+  const [yScale, setYScale] = useState<Scale>('log');
+  const x = byPath.get(xPath) ?? metrics[0];
+  const y = byPath.get(yPath) ?? metrics[0];
+
+  const rows = table.getFilteredRowModel().rows.map((row) => row.original);
+
+  // A point needs both values, and positive ones on a log axis
+  const points = rows.flatMap((company) => {
+    const xValue = getMetricValue(company, x);
+    const yValue = getMetricValue(company, y);
+    if (xValue === null || yValue === null) return [];
+    if ((xScale === 'log' && xValue <= 0) || (yScale === 'log' && yValue <= 0)) return [];
+    return [{ company, x: xValue, y: yValue }];
+  });
+
+  const statuses = [...new Set(points.map(({ company }) => company.status?.toLowerCase() ?? 'unknown'))].sort();
+  const datasets = statuses.map((status) => {
+    const color = STATUS_COLORS[status] ?? OTHER_COLOR;
+    return {
+      label: status,
+      data: points.filter(({ company }) => (company.status?.toLowerCase() ?? 'unknown') === status),
+      backgroundColor: `${color}b3`, // ~70% alpha so overlapping points stay visible
+      borderColor: color,
+      pointRadius: 4,
+      pointHoverRadius: 6,
+    };
+  });
+
+  const axisTitle = (metric: MetricConfig, scale: Scale) => `${metric.label} (${metric.unit})${scale === 'log' ? ', log scale' : ''}`;
+  const options: ChartOptions<'scatter'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    plugins: {
+      legend: { position: 'bottom' },
+      tooltip: {
+        callbacks: {
+          label: (item) => {
+            const { company } = item.raw as (typeof points)[number];
+            return [
+              `${company.company_name} (${company.tsx_code.toUpperCase()})`,
+              `${x.label}: ${formatMetricValue(item.parsed.x, x.format, currency)}`,
+              `${y.label}: ${formatMetricValue(item.parsed.y, y.format, currency)}`,
+            ];
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        type: xScale === 'log' ? 'logarithmic' : 'linear',
+        title: { display: true, text: axisTitle(x, xScale) },
+        ticks: { maxTicksLimit: 8, callback: (value) => formatMetricValue(Number(value), x.format, currency) },
+      },
+      y: {
+        type: yScale === 'log' ? 'logarithmic' : 'linear',
+        title: { display: true, text: axisTitle(y, yScale) },
+        ticks: { maxTicksLimit: 8, callback: (value) => formatMetricValue(Number(value), y.format, currency) },
+      },
+    },
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="h-9" title="Plot the filtered companies on two metrics">
+          <ChartScatter className="mr-2 h-4 w-4" /> Chart
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Scatter Analysis</DialogTitle>
+          <DialogDescription>
+            {points.length} of {rows.length} filtered companies have both values
+            {(xScale === 'log' || yScale === 'log') && ' (log axes leave out zero and negative values)'}. Monetary values in {currency}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-x-6 gap-y-2">
+          <AxisPicker axis="X axis" metrics={metrics} value={x} scale={xScale} onChange={setXPath} onScaleChange={setXScale} />
+          <AxisPicker axis="Y axis" metrics={metrics} value={y} scale={yScale} onChange={setYPath} onScaleChange={setYScale} />
+        </div>
+        {points.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No filtered company has both values.</p>
+        ) : (
+          <div className="h-[60vh]">
+            <Scatter data={{ datasets }} options={options} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
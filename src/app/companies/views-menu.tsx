@@ -0,0 +1,149 @@
+// src/app/companies/views-menu.tsx
+'use client';
+
+// Saved views for the companies table: named presets of columns, order, widths, sort,
+// filters and currency, stored in this browser. Also resets the table and copies a link
+// to the current view (the URL always carries it, see src/lib/table-views.ts).
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Check, Link2, RotateCcw, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { parseStoredViews } from '@/lib/table-views';
+import type { SavedView, TableViewState } from '@/types';
+
+const STORAGE_KEY = 'table-views';
+
+interface ViewsMenuProps {
+  state: TableViewState | null; // Current table state; null until the table has reported it
+  currency: string;
+  onApply: (view: SavedView | null) => void; // null = back to the defaults
+}
+
+const sameView = (view: SavedView, state: TableViewState | null, currency: string) =>
+  view.currency === currency && JSON.stringify(view.state) === JSON.stringify(state);
+
+export function ViewsMenu({ state, currency, onApply }: ViewsMenuProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeName, setActiveName] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  // Read after mount so server and client render the same first frame
+  useEffect(() => {
+    setViews(parseStoredViews(window.localStorage.getItem(STORAGE_KEY)));
+  }, []);
+
+  const store = (next: SavedView[]) => {
+    setViews(next);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !state) return;
+    const view: SavedView = { name: trimmed, state, currency, savedAt: new Date().toISOString() };
+    // Same name overwrites
+    store([...views.filter((v) => v.name !== trimmed), view].sort((a, b) => a.name.localeCompare(b.name)));
+    setActiveName(trimmed);
+    setName('');
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const active = views.find((view) => view.name === activeName);
+  const modified = active !== undefined && !sameView(active, state, currency);
+  const exists = views.some((view) => view.name === name.trim());
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-9" title="Saved views">
+          <Bookmark className="mr-2 h-4 w-4" />
+          {active ? `${active.name}${modified ? ' *' : ''}` : 'Views'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        <p className="text-sm font-medium">Saved views</p>
+        {views.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No saved views yet. A view keeps the columns, their order and widths, sorting, filters, screen and currency.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {views.map((view) => (
+              <li key={view.name} className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  className={cn('h-8 flex-1 justify-start truncate', view.name === activeName && 'bg-accent')}
+                  title={`Saved ${new Date(view.savedAt).toLocaleString()}`}
+                  onClick={() => {
+                    setActiveName(view.name);
+                    onApply(view);
+                  }}
+                >
+                  {view.name}
+                  <span className="ml-auto text-xs text-muted-foreground">{view.currency}</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  title={`Delete ${view.name}`}
+                  onClick={() => {
+                    store(views.filter((v) => v.name !== view.name));
+                    if (activeName === view.name) setActiveName(null);
+                  }}
+                >
+                  <span className="sr-only">Delete {view.name}</span>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            save();
+          }}
+        >
+          <Input
+            placeholder={active && modified ? active.name : 'View name'}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className="h-8"
+          />
+          <Button type="submit" size="sm" disabled={!name.trim() || !state}>
+            {exists ? 'Update' : 'Save'}
+          </Button>
+        </form>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => {
+              setActiveName(null);
+              onApply(null);
+            }}
+          >
+            <RotateCcw className="mr-2 h-3 w-3" /> Default view
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" onClick={copyLink}>
+            {copied ? <Check className="mr-2 h-3 w-3" /> : <Link2 className="mr-2 h-3 w-3" />}
+            {copied ? 'Copied' : 'Copy link'}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,187 @@
+// src/app/data-quality/page.tsx
+// Server component: runs the data quality rules (src/lib/data-quality.ts) over every
+// company and lists the findings per table, per rule and per company.
+// Amounts are compared in one currency: ?currency=USD etc., default CAD.
+
+import React from 'react';
+import Link from 'next/link';
+import { Terminal } from 'lucide-react';
+import { getCompanyRepository } from '@/lib/data/repository';
+import {
+  availableCurrencies,
+  buildRateTable,
+  DEFAULT_REPORTING_CURRENCY,
+  normalizeCompanyCurrency,
+  REPORTING_CURRENCIES,
+  ReportingCurrency,
+} from '@/lib/currency';
+import { applyDerivedValuations } from '@/lib/derived-metrics';
+import { buildQualityReport, QualityReport, SEVERITIES } from '@/lib/data-quality';
+import type { QualitySeverity } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+export const dynamic = 'force-dynamic';
+
+const SEVERITY_BADGES: Record<QualitySeverity, 'destructive' | 'outline' | 'secondary'> = {
+  error: 'destructive',
+  warning: 'outline',
+  info: 'secondary',
+};
+
+function SeverityBadge({ severity }: { severity: QualitySeverity }) {
+  return (
+    <Badge variant={SEVERITY_BADGES[severity]} className={severity === 'warning' ? 'border-amber-500 text-amber-700' : undefined}>
+      {severity}
+    </Badge>
+  );
+}
+
+interface DataQualityPageProps {
+  searchParams: Promise<{ currency?: string | string[] }>;
+}
+
+export default async function DataQualityPage({ searchParams }: DataQualityPageProps) {
+  const { currency: currencyParam } = await searchParams;
+  const requested = typeof currencyParam === 'string' ? currencyParam.toUpperCase() : '';
+  let currency: ReportingCurrency = REPORTING_CURRENCIES.includes(requested as ReportingCurrency)
+    ? (requested as ReportingCurrency)
+    : DEFAULT_REPORTING_CURRENCY;
+  let available: ReportingCurrency[] = [...REPORTING_CURRENCIES]; // Narrowed once the rates are loaded
+
+  let report: QualityReport | null = null;
+  let companyCount = 0;
+  let validationIssueCount = 0;
+  let error: string | null = null;
+
+  try {
+    const repository = getCompanyRepository();
+    const [result, exchangeRates] = await Promise.all([repository.listCompanies(), repository.listExchangeRates()]);
+    const rates = buildRateTable(exchangeRates);
+    available = availableCurrencies(rates);
+    if (!available.includes(currency)) currency = DEFAULT_REPORTING_CURRENCY; // Nothing to convert into
+    report = buildQualityReport(
+      result.companies.map((company) => applyDerivedValuations(normalizeCompanyCurrency(company, currency, rates)))
+    );
+    companyCount = result.companies.length;
+    validationIssueCount = result.issues.length;
+  } catch (err: unknown) {
+    console.error('Error building data quality report:', err);
+    error = `Failed to load company data. ${err instanceof Error ? err.message : 'Unknown error'}. See server logs.`;
+  }
+
+  return (
+    <div className="w-full p-4 md:p-6">
+      <h1 className="text-2xl md:text-3xl font-bold mb-2">Data Quality</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Consistency checks across each company&apos;s records. Amounts compared in {currency} (
+        {available.filter((code) => code !== currency).map((code, i) => (
+          <React.Fragment key={code}>
+            {i > 0 && ', '}
+            <Link href={`/data-quality?currency=${code}`} className="text-blue-600 hover:underline">{code}</Link>
+          </React.Fragment>
+        ))}
+        ).
+        {REPORTING_CURRENCIES.filter((code) => !available.includes(code)).map((code) => ` ${code}: no exchange rate on file.`)}
+      </p>
+
+      {error || !report ? (
+        <Alert variant="destructive">
+          <Terminal className="h-4 w-4" />
+          <AlertTitle>Error Loading Data</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <div className="space-y-8">
+          <section>
+            <p className="text-sm mb-2">
+              {report.companies.length} of {companyCount} companies have at least one issue.
+              {validationIssueCount > 0 && ` ${validationIssueCount} field(s) also failed type validation on load (see the Companies page).`}
+            </p>
+            <h2 className="text-lg font-semibold mb-2">By table</h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Table</TableHead>
+                  {SEVERITIES.map((severity) => (
+                    <TableHead key={severity} className="text-right capitalize">{severity}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.tables.map(({ table, counts }) => (
+                  <TableRow key={table}>
+                    <TableCell className="font-mono text-xs">{table}</TableCell>
+                    {SEVERITIES.map((severity) => (
+                      <TableCell key={severity} className="text-right tabular-nums">{counts[severity]}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </section>
+
+          <section>
+            <h2 className="text-lg font-semibold mb-2">By rule</h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Issues</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.rules.map(({ rule, count }) => (
+                  <TableRow key={rule.id} className={count === 0 ? 'text-muted-foreground' : undefined}>
+                    <TableCell className="font-mono text-xs">{rule.id}</TableCell>
+                    <TableCell><SeverityBadge severity={rule.severity} /></TableCell>
+                    <TableCell className="whitespace-normal">{rule.description}</TableCell>
+                    <TableCell className="text-right tabular-nums">{count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </section>
+
+          <section>
+            <h2 className="text-lg font-semibold mb-2">By company (worst first)</h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Ticker</TableHead>
+                  <TableHead>Issues</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.companies.map((company) => (
+                  <TableRow key={company.company_id} className="align-top">
+                    <TableCell className="font-medium">
+                      <Link href={`/companies/${company.company_id}`} className="hover:underline">{company.company_name}</Link>
+                    </TableCell>
+                    <TableCell className="uppercase">{company.tsx_code}</TableCell>
+                    <TableCell className="whitespace-normal">
+                      <ul className="space-y-1">
+                        {company.issues.map((issue, i) => (
+                          <li key={i} className="flex items-start gap-2 text-sm">
+                            <SeverityBadge severity={issue.severity} />
+                            <span>
+                              {issue.message} <span className="font-mono text-xs text-muted-foreground">{issue.ruleId}</span>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
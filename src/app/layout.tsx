@@ -4,6 +4,10 @@ import { Inter } from 'next/font/google'
 import './globals.css' // Ensure Tailwind via globals.css
 import Navbar from '@/components/Navbar' // Placeholder import
 import Footer from '@/components/Footer' // Placeholder import
+import { CurrencyProvider } from '@/contexts/currency-context' // Reporting currency shared by every page
+import { CalculatedColumnsProvider } from '@/contexts/calculated-columns-context' // User formula columns
+import { getCompanyRepository } from '@/lib/data/repository'
+import { availableCurrencies, buildRateTable, REPORTING_CURRENCIES, ReportingCurrency } from '@/lib/currency'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -12,19 +16,36 @@ export const metadata: Metadata = {
   description: 'Data platform for Canadian mining companies', // Adjust description
 }
 
-export default function RootLayout({
+// Reporting currencies the exchange_rates table can convert into. If the rates can't be
+// loaded every currency stays on offer; the pages report the failure themselves.
+async function loadAvailableCurrencies(): Promise<ReportingCurrency[]> {
+  try {
+    return availableCurrencies(buildRateTable(await getCompanyRepository().listExchangeRates()))
+  } catch (err: unknown) {
+    console.error('Error loading exchange rates:', err)
+    return [...REPORTING_CURRENCIES]
+  }
+}
+
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const available = await loadAvailableCurrencies()
+
   return (
     <html lang="en">
       <body className={`${inter.className} bg-white flex flex-col min-h-screen`}>
-        <Navbar /> {/* Add Navbar */}
-        <main className="flex-grow container mx-auto px-4 py-8"> {/* Main content area */}
-          {children}
-        </main>
-        <Footer /> {/* Add Footer */}
+        <CurrencyProvider available={available}>
+          <CalculatedColumnsProvider>
+            <Navbar /> {/* Add Navbar */}
+            <main className="flex-grow container mx-auto px-4 py-8"> {/* Main content area */}
+              {children}
+            </main>
+            <Footer /> {/* Add Footer */}
+          </CalculatedColumnsProvider>
+        </CurrencyProvider>
       </body>
     </html>
   )
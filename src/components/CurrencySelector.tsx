@@ -0,0 +1,41 @@
+// src/components/CurrencySelector.tsx
+'use client';
+
+import { ChevronDown } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useCurrency } from '@/contexts/currency-context';
+import { REPORTING_CURRENCIES, ReportingCurrency } from '@/lib/currency';
+
+export default function CurrencySelector() {
+  const { currency, setCurrency, available } = useCurrency();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="inline-flex items-center gap-1 rounded border border-blue-400 px-2 py-1 text-sm hover:bg-blue-700">
+        {currency}
+        <ChevronDown className="h-3 w-3" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Reporting currency</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={currency} onValueChange={(value) => setCurrency(value as ReportingCurrency)}>
+          {REPORTING_CURRENCIES.map((code) => (
+            <DropdownMenuRadioItem key={code} value={code} disabled={!available.includes(code)}>
+              {code}
+              {/* Listed but not selectable, so it's clear why it can't be picked */}
+              {!available.includes(code) && <span className="ml-2 text-xs text-muted-foreground">no exchange rate on file</span>}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
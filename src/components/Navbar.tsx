@@ -1,5 +1,6 @@
 // src/components/Navbar.tsx
 import Link from 'next/link';
+import CurrencySelector from '@/components/CurrencySelector'; // Client island; the Navbar stays a server component
 
 export default function Navbar() {
   return (
@@ -8,13 +9,16 @@ export default function Navbar() {
         <Link href="/" className="text-xl font-bold">
           Mining Analyser {/* Or your App Name */}
         </Link>
-        <div className="space-x-4">
+        <div className="flex items-center space-x-4">
           <Link href="/" className="hover:text-blue-200">
             Home
           </Link>
           <Link href="/companies" className="hover:text-blue-200">
             Companies
           </Link>
+          <Link href="/data-quality" className="hover:text-blue-200">
+            Data Quality
+          </Link>
           <Link href="/heatmap" className="hover:text-blue-200">
             Heatmap
           </Link>
@@ -25,6 +29,7 @@ export default function Navbar() {
           <Link href="/login" className="hover:text-blue-200">
             Login
           </Link>
+          <CurrencySelector />
         </div>
       </div>
     </nav>
@@ -0,0 +1,57 @@
+// src/contexts/calculated-columns-context.tsx
+'use client';
+
+// The user's calculated (formula) columns, saved in localStorage so they survive reloads
+// and are shared by every page that lists metrics (table, charts).
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { CalculatedColumn, MetricConfig } from '@/types';
+import { createColumnId, parseStoredColumns, toMetricConfig } from '@/lib/calculated-columns';
+
+const STORAGE_KEY = 'calculated-columns';
+
+interface CalculatedColumnsContextValue {
+  columns: CalculatedColumn[];
+  metrics: MetricConfig[]; // The same columns as catalog-style metrics
+  addColumn: (column: Omit<CalculatedColumn, 'id'>) => void;
+  updateColumn: (id: string, column: Omit<CalculatedColumn, 'id'>) => void;
+  removeColumn: (id: string) => void;
+}
+
+const CalculatedColumnsContext = createContext<CalculatedColumnsContextValue | null>(null);
+
+export function CalculatedColumnsProvider({ children }: { children: React.ReactNode }) {
+  const [columns, setColumns] = useState<CalculatedColumn[]>([]);
+
+  // Read after mount so server and client render the same first frame
+  useEffect(() => {
+    setColumns(parseStoredColumns(window.localStorage.getItem(STORAGE_KEY)));
+  }, []);
+
+  const save = useCallback((update: (current: CalculatedColumn[]) => CalculatedColumn[]) => {
+    setColumns((current) => {
+      const next = update(current);
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const value = useMemo<CalculatedColumnsContextValue>(
+    () => ({
+      columns,
+      metrics: columns.map(toMetricConfig),
+      addColumn: (column) => save((current) => [...current, { ...column, id: createColumnId(column.name, current) }]),
+      // The id stays put on rename, so filters and views that reference the column keep working
+      updateColumn: (id, column) => save((current) => current.map((c) => (c.id === id ? { ...column, id } : c))),
+      removeColumn: (id) => save((current) => current.filter((c) => c.id !== id)),
+    }),
+    [columns, save]
+  );
+
+  return <CalculatedColumnsContext.Provider value={value}>{children}</CalculatedColumnsContext.Provider>;
+}
+
+export function useCalculatedColumns(): CalculatedColumnsContextValue {
+  const context = useContext(CalculatedColumnsContext);
+  if (!context) throw new Error('useCalculatedColumns must be used inside <CalculatedColumnsProvider>');
+  return context;
+}
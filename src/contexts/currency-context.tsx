@@ -0,0 +1,61 @@
+// src/contexts/currency-context.tsx
+'use client';
+
+// Reporting currency chosen in the Navbar. Every monetary figure on screen
+// (table cells, tooltips, charts, exports) is re-expressed in this currency.
+// Only currencies the exchange_rates table can reach can be picked (see the root layout).
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { DEFAULT_REPORTING_CURRENCY, REPORTING_CURRENCIES, ReportingCurrency } from '@/lib/currency';
+
+const STORAGE_KEY = 'reporting-currency';
+
+interface CurrencyContextValue {
+  currency: ReportingCurrency;
+  setCurrency: (currency: ReportingCurrency) => void; // Ignores currencies without rates
+  available: ReportingCurrency[]; // Currencies with an exchange rate on file
+}
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null);
+
+function isReportingCurrency(value: unknown): value is ReportingCurrency {
+  return REPORTING_CURRENCIES.includes(value as ReportingCurrency);
+}
+
+interface CurrencyProviderProps {
+  available: ReportingCurrency[];
+  children: React.ReactNode;
+}
+
+export function CurrencyProvider({ available: availableProp, children }: CurrencyProviderProps) {
+  // Keyed on the codes so a new array with the same currencies changes nothing downstream
+  const availableKey = availableProp.join(',');
+  const available = useMemo(
+    () => REPORTING_CURRENCIES.filter((code) => availableKey.split(',').includes(code)),
+    [availableKey]
+  );
+  const fallback = available.includes(DEFAULT_REPORTING_CURRENCY) ? DEFAULT_REPORTING_CURRENCY : (available[0] ?? DEFAULT_REPORTING_CURRENCY);
+  const [currency, setCurrencyState] = useState<ReportingCurrency>(fallback);
+
+  // Read the saved choice after mount so server and client render the same first frame
+  useEffect(() => {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (isReportingCurrency(saved) && available.includes(saved)) setCurrencyState(saved);
+  }, [available]);
+
+  const setCurrency = useCallback(
+    (next: ReportingCurrency) => {
+      if (!available.includes(next)) return;
+      setCurrencyState(next);
+      window.localStorage.setItem(STORAGE_KEY, next);
+    },
+    [available]
+  );
+
+  return <CurrencyContext.Provider value={{ currency, setCurrency, available }}>{children}</CurrencyContext.Provider>;
+}
+
+export function useCurrency(): CurrencyContextValue {
+  const context = useContext(CurrencyContext);
+  if (!context) throw new Error('useCurrency must be used inside <CurrencyProvider>');
+  return context;
+}
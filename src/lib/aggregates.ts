@@ -0,0 +1,57 @@
+// src/lib/aggregates.ts
+// Column summaries for the table footer: count of non-null values, sum, mean, median,
+// min, max, and the mean weighted by market cap. Values arrive in the reporting currency
+// (unconvertible amounts are already null), so they can be added up across companies.
+import type { AggregateKind, MetricConfig } from '@/types';
+
+export const AGGREGATES: { kind: AggregateKind; label: string }[] = [
+  { kind: 'count', label: 'Count' },
+  { kind: 'sum', label: 'Sum' },
+  { kind: 'mean', label: 'Mean' },
+  { kind: 'median', label: 'Median' },
+  { kind: 'min', label: 'Min' },
+  { kind: 'max', label: 'Max' },
+  { kind: 'weighted_mean', label: 'Mcap-weighted mean' },
+];
+
+// Totals for amounts (market cap, cash, ounces), medians for ratios and per-ounce figures
+export function defaultAggregate(metric: MetricConfig): AggregateKind {
+  return metric.format === 'currency' || metric.format === 'moz' || metric.format === 'koz' ? 'sum' : 'median';
+}
+
+const isNumber = (value: number | null | undefined): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// null when there is nothing to summarize (no values, or no positive weights).
+// weights lines up with values; rows without a positive weight are left out of the weighted mean.
+export function aggregate(kind: AggregateKind, values: (number | null)[], weights: (number | null)[] = []): number | null {
+  const present = values.filter(isNumber);
+  if (kind === 'count') return present.length;
+  if (present.length === 0) return null;
+
+  switch (kind) {
+    case 'sum':
+      return present.reduce((sum, value) => sum + value, 0);
+    case 'mean':
+      return present.reduce((sum, value) => sum + value, 0) / present.length;
+    case 'median': {
+      const sorted = [...present].sort((a, b) => a - b);
+      const mid = sorted.length >> 1;
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+    case 'min':
+      return Math.min(...present);
+    case 'max':
+      return Math.max(...present);
+    case 'weighted_mean': {
+      let total = 0;
+      let weightSum = 0;
+      values.forEach((value, i) => {
+        const weight = weights[i];
+        if (!isNumber(value) || !isNumber(weight) || weight <= 0) return;
+        total += value * weight;
+        weightSum += weight;
+      });
+      return weightSum > 0 ? total / weightSum : null;
+    }
+  }
+}
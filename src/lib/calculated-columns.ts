@@ -0,0 +1,127 @@
+// src/lib/calculated-columns.ts
+// User-defined formula columns, e.g. cash ÷ market cap:
+//
+//   financials.cash_value / financials.market_cap_value * 100
+//
+// Formulas use the screen expression language (src/lib/expression.ts) and must produce a
+// number. Values are computed per company into company.calculated[id], after currency
+// conversion, so monetary formulas come out in the reporting currency. Each column is
+// also described as a MetricConfig (group 'calculated'), which is how the table, filters,
+// exports and chart axes pick it up like a catalog metric.
+import type { CalculatedColumn, CompanyData, MetricConfig, MetricFormat } from '@/types';
+import { evaluateExpression, ExpressionError, ExpressionNode, parseExpression } from '@/lib/expression';
+import { getColumnValue, SCREEN_SCOPE } from '@/lib/filters';
+
+// Formats offered in the editor, with the unit they usually go with
+export const CALCULATED_FORMATS: { format: MetricFormat; label: string; unit: string }[] = [
+  { format: 'number', label: 'Number', unit: '' },
+  { format: 'currency', label: 'Currency', unit: '$' },
+  { format: 'currency_per_oz', label: 'Currency per oz', unit: '$/oz' },
+  { format: 'ratio', label: 'Ratio (x)', unit: 'x' },
+  { format: 'percent', label: 'Percent', unit: '%' },
+  { format: 'moz', label: 'Moz', unit: 'Moz' },
+  { format: 'koz', label: 'koz', unit: 'koz' },
+  { format: 'shares', label: 'Shares', unit: 'shares' },
+  { format: 'years', label: 'Years', unit: 'years' },
+];
+
+export const calculatedPath = (id: string) => `calculated.${id}`;
+
+// Parse a formula; throws ExpressionError (with position) if it isn't a numeric expression
+export function parseFormula(expression: string): ExpressionNode {
+  const node = parseExpression(expression, SCREEN_SCOPE);
+  if (node.valueType !== 'number') {
+    throw new ExpressionError(
+      `A column formula must produce a number, not ${node.valueType === 'null' ? 'NULL' : `a ${node.valueType}`}`,
+      node.start,
+      node.end
+    );
+  }
+  return node;
+}
+
+// Problems with a definition before it is saved, by field; empty when valid
+export function validateCalculatedColumn(
+  column: Omit<CalculatedColumn, 'id'>,
+  others: CalculatedColumn[]
+): { name?: string; expression?: ExpressionError } {
+  const errors: { name?: string; expression?: ExpressionError } = {};
+  const name = column.name.trim();
+  if (!name) errors.name = 'Give the column a name';
+  else if (others.some((other) => other.name.trim().toLowerCase() === name.toLowerCase())) {
+    errors.name = `There is already a column called "${name}"`;
+  }
+  try {
+    parseFormula(column.expression);
+  } catch (err) {
+    errors.expression = err instanceof ExpressionError ? err : new ExpressionError(String(err), 0, column.expression.length);
+  }
+  return errors;
+}
+
+// Stable id from the name, unique among the existing columns ('Cash / Mkt Cap' -> 'cash_mkt_cap')
+export function createColumnId(name: string, existing: CalculatedColumn[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'column';
+  const taken = new Set(existing.map((column) => column.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+export function toMetricConfig(column: CalculatedColumn): MetricConfig {
+  return {
+    key: `calc_${column.id}`,
+    path: calculatedPath(column.id),
+    label: column.name,
+    unit: column.unit,
+    format: column.format,
+    higherIsBetter: column.higherIsBetter,
+    description: `Calculated: ${column.expression}.`,
+    group: 'calculated',
+  };
+}
+
+export type CompanyCalculator = (company: CompanyData) => CompanyData;
+
+// Compile the columns once and return a function that fills in company.calculated.
+// A formula that no longer parses (a stored column naming a removed field) gives nulls.
+export function createCalculator(columns: CalculatedColumn[]): CompanyCalculator {
+  const compiled = columns.map((column) => {
+    try {
+      return { id: column.id, node: parseFormula(column.expression) };
+    } catch {
+      return { id: column.id, node: null };
+    }
+  });
+
+  return (company) => {
+    if (compiled.length === 0) return company;
+    const calculated: Record<string, number | null> = {};
+    for (const { id, node } of compiled) {
+      const value = node ? evaluateExpression(node, (name) => getColumnValue(company, name)) : null;
+      calculated[id] = typeof value === 'number' ? value : null;
+    }
+    return { ...company, calculated };
+  };
+}
+
+// Read columns saved by an earlier session, dropping anything malformed
+export function parseStoredColumns(json: string | null): CalculatedColumn[] {
+  if (!json) return [];
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    const formats = new Set(CALCULATED_FORMATS.map(({ format }) => format));
+    return parsed.filter(
+      (column): column is CalculatedColumn =>
+        typeof column?.id === 'string' &&
+        typeof column.name === 'string' &&
+        typeof column.expression === 'string' &&
+        typeof column.unit === 'string' &&
+        formats.has(column.format) &&
+        typeof column.higherIsBetter === 'boolean'
+    );
+  } catch {
+    return [];
+  }
+}
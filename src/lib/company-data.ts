@@ -0,0 +1,168 @@
+// src/lib/company-data.ts
+// Turns the nested rows we fetch (company + related tables) into validated CompanyData.
+import type { CompanyData, CompanyRef, CompanyRelation, RecordVersionInfo, TableName, TableRowTypes } from '@/types';
+import { FieldIssue, primaryKeys, validateRow, validateRows } from '@/lib/validation';
+
+// Supabase nested select for the full CompanyData shape
+export const COMPANY_SELECT_QUERY = `
+  *,
+  financials (*),
+  capital_structure (*),
+  mineral_estimates (*),
+  production (*),
+  costs (*),
+  valuation_metrics (*),
+  company_urls (*)
+`;
+
+// Supabase returns a related table as an array, a single object or null depending on the FK
+function asArray(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === null || value === undefined ? [] : [value];
+}
+
+// Validate related rows and order them by primary key, so every data source
+// hands back the same records in the same order
+function validateRelation<K extends TableName>(table: K, value: unknown): { rows: TableRowTypes[K][]; issues: FieldIssue[] } {
+  const result = validateRows(table, asArray(value));
+  const pk = primaryKeys[table];
+  result.rows.sort((a, b) => (a[pk] as number) - (b[pk] as number));
+  return result;
+}
+
+export type RecordSelectionOptions = {
+  // Show each relation as it stood at this moment (ISO timestamp, see parseAsOf).
+  // Omitted = the latest record.
+  asOf?: string | null;
+};
+
+// '2025-03-01' means the end of that day; full timestamps are used as given.
+// Returns null for anything Date can't parse.
+export function parseAsOf(value: string): string | null {
+  const input = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value;
+  const time = Date.parse(input);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+// Records without last_updated count as the oldest
+function updatedTime(row: { last_updated: string | null }): number {
+  const time = row.last_updated ? Date.parse(row.last_updated) : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+}
+
+// Pick the record to show for a one-to-one relation: the latest last_updated,
+// or the latest at or before asOf. Ties go to the higher primary key (inserted later).
+// Rows come in primary key order from validateRelation.
+function selectRecord<T extends { last_updated: string | null }>(
+  rows: T[],
+  asOf: string | null | undefined
+): { record: T | null; info: RecordVersionInfo | null } {
+  const limit = asOf ? Date.parse(asOf) : Infinity;
+  let selected: T | null = null;
+  for (const row of rows) {
+    if (updatedTime(row) > limit) continue;
+    if (!selected || updatedTime(row) >= updatedTime(selected)) selected = row;
+  }
+  if (rows.length < 2) return { record: selected, info: null };
+
+  const newer = selected ? rows.filter((row) => updatedTime(row) > updatedTime(selected!)).length : rows.length;
+  return {
+    record: selected,
+    info: { versions: rows.length, newer, selected_updated: selected?.last_updated ?? null },
+  };
+}
+
+// Validate one raw nested company. Every bad field is reported; a company row
+// that can't be used (missing id/name/ticker) drops the whole company.
+export function formatCompanyRow(
+  raw: unknown,
+  options: RecordSelectionOptions = {}
+): { company: CompanyData | null; issues: FieldIssue[] } {
+  const base = validateRow('companies', raw);
+  if (!base.value) return { company: null, issues: base.issues };
+
+  const source = raw as Record<string, unknown>;
+  const issues: FieldIssue[] = [...base.issues];
+
+  const financials = validateRelation('financials', source.financials);
+  const capitalStructure = validateRelation('capital_structure', source.capital_structure);
+  const mineralEstimates = validateRelation('mineral_estimates', source.mineral_estimates);
+  const production = validateRelation('production', source.production);
+  const costs = validateRelation('costs', source.costs);
+  const valuationMetrics = validateRelation('valuation_metrics', source.valuation_metrics);
+  const urls = validateRelation('company_urls', source.company_urls);
+
+  issues.push(
+    ...financials.issues,
+    ...capitalStructure.issues,
+    ...mineralEstimates.issues,
+    ...production.issues,
+    ...costs.issues,
+    ...valuationMetrics.issues,
+    ...urls.issues,
+  );
+
+  const recordVersions: CompanyData['record_versions'] = {};
+  const pick = <T extends { last_updated: string | null }>(relation: CompanyRelation, rows: T[]): T | null => {
+    const { record, info } = selectRecord(rows, options.asOf);
+    if (info) recordVersions[relation] = info;
+    return record;
+  };
+
+  const company: CompanyData = {
+    ...base.value,
+    financials: pick('financials', financials.rows),
+    capital_structure: pick('capital_structure', capitalStructure.rows),
+    mineral_estimates: pick('mineral_estimates', mineralEstimates.rows),
+    production: pick('production', production.rows),
+    costs: pick('costs', costs.rows),
+    valuation_metrics: pick('valuation_metrics', valuationMetrics.rows),
+    company_urls: urls.rows,
+  };
+  if (Object.keys(recordVersions).length > 0) company.record_versions = recordVersions;
+
+  return { company, issues };
+}
+
+// Name order (then id), applied here rather than in the query so it doesn't depend on database collation
+const byName = (a: CompanyRef, b: CompanyRef) =>
+  a.company_name < b.company_name ? -1 : a.company_name > b.company_name ? 1 : a.company_id - b.company_id;
+
+// Format a whole result set, collecting issues across all companies, sorted by name
+export function formatCompanyRows(
+  rawRows: unknown[],
+  options: RecordSelectionOptions = {}
+): { companies: CompanyData[]; issues: FieldIssue[] } {
+  const companies: CompanyData[] = [];
+  const issues: FieldIssue[] = [];
+  for (const raw of rawRows ?? []) {
+    const result = formatCompanyRow(raw, options);
+    if (result.company) companies.push(result.company);
+    issues.push(...result.issues);
+  }
+  companies.sort(byName);
+  return { companies, issues };
+}
+
+// Bare company rows (no related tables) reduced to id, name and ticker, sorted by name
+export function formatCompanyRefs(rawRows: unknown[]): CompanyRef[] {
+  return validateRows('companies', rawRows ?? [])
+    .rows.map(({ company_id, company_name, tsx_code }) => ({ company_id, company_name, tsx_code }))
+    .sort(byName);
+}
+
+// Most recent last_updated across a company and the related records shown for it,
+// as an ISO timestamp; null when none are dated. Exports label rows with it.
+export function latestUpdate(company: CompanyData): string | null {
+  const rows = [
+    company,
+    company.financials,
+    company.capital_structure,
+    company.mineral_estimates,
+    company.production,
+    company.costs,
+    company.valuation_metrics,
+  ].filter((row): row is NonNullable<typeof row> => row !== null);
+  const latest = Math.max(...rows.map(updatedTime));
+  return Number.isFinite(latest) ? new Date(latest).toISOString() : null;
+}
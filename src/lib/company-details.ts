@@ -0,0 +1,174 @@
+// src/lib/company-details.ts
+// Everything held for one company, laid out for the detail page (/companies/[id]):
+// one section per table, one row per field, each with the table/column it comes from
+// and the last_updated of its record. Money is shown in the currency the record holds: pass
+// the company through normalizeCompanyCurrency first and that is the reporting currency, with
+// each converted field carrying its conversion. Catalog metrics use the catalog label and format. The Price
+// Performance section lists the figures computed from stock_prices instead of a record.
+import type {
+  CompanyData,
+  CompanyRelation,
+  CompanyUrl,
+  CurrencyConversion,
+  MetricGroup,
+  RecordVersionInfo,
+  TableName,
+} from '@/types';
+import { PRICE_PERFORMANCE_FIELDS } from '@/lib/price-performance';
+import { FieldSpec, primaryKeys, tableSchemas } from '@/lib/validation';
+import { MONETARY_FIELDS, VALUATION_CURRENCY, VALUATION_FIELDS } from '@/lib/currency';
+import { describeMetric, formatMetricValue, getMetricByPath, METRIC_GROUPS } from '@/lib/metrics';
+import { formatCurrency, formatNumber } from '@/lib/utils';
+
+export type DetailField = {
+  field: string; // Column name in the source table
+  label: string;
+  value: string; // Formatted for display, '-' when missing, 'n/a' when it couldn't be converted
+  conversion: CurrencyConversion | null; // How the value reached the reporting currency, when it was converted
+  description: string | null; // Catalog description for catalog metrics
+  source: string; // 'financials.cash_value', plus the record's data_source when it names one
+  updated: string | null; // last_updated of the record the value comes from
+};
+
+export type DetailSection = {
+  group: MetricGroup;
+  label: string;
+  table: TableName;
+  recordId: number | null; // Primary key of the record shown; null when the company has none
+  summary: string; // Where the section's figures come from, e.g. 'financials #12, last updated 2025-03-12'
+  updated: string | null;
+  versions: RecordVersionInfo | null; // Set when several records were on file
+  fields: DetailField[]; // Empty when there is nothing on file
+};
+
+// Shown elsewhere on the page (header, description) or as part of another field
+const HIDDEN_FIELDS = ['company_id', 'company_name', 'tsx_code', 'description', 'last_updated', 'data_source'];
+
+const MONEY_CURRENCY = new Map<string, string>(MONETARY_FIELDS.map(({ relation, field, currency }) => [`${relation}.${field}`, currency]));
+
+// cash_value -> Cash Value
+const prettify = (field: string) => field.replace(/_/g, ' ').replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+function formatField(table: TableName, field: string, value: unknown, record: Record<string, unknown>): string {
+  if (value === null || value === undefined || value === '') return '-';
+  const kind = (tableSchemas[table] as Record<string, FieldSpec>)[field]?.kind;
+  if (kind === 'json') return JSON.stringify(value);
+  if (kind === 'timestamp' || kind === 'date') return String(value).slice(0, 10);
+  if (typeof value !== 'number') return String(value);
+
+  const path = `${table}.${field}`;
+  const currencyField = MONEY_CURRENCY.get(path);
+  const currency = currencyField
+    ? (record[currencyField] as string | null)
+    : table === 'valuation_metrics' && (VALUATION_FIELDS as readonly string[]).includes(field)
+      ? VALUATION_CURRENCY
+      : null;
+  const metric = getMetricByPath(table === 'companies' ? field : path);
+
+  if (currencyField && !currency) return `${formatNumber(value, 0)} (currency not given)`;
+  if (metric) return formatMetricValue(value, metric.format, currency ?? '');
+  return currency ? formatCurrency(value, currency) : formatNumber(value, Number.isInteger(value) ? 0 : 2);
+}
+
+function buildSection(
+  group: MetricGroup,
+  label: string,
+  table: TableName,
+  record: Record<string, unknown> | null,
+  versions: RecordVersionInfo | null,
+  conversions: Record<string, CurrencyConversion> = {}
+): DetailSection {
+  const updated = (record?.last_updated as string | null | undefined) ?? null;
+  const dataSource = (record?.data_source as string | null | undefined) ?? null;
+  const recordId = record ? (record[primaryKeys[table]] as number) : null;
+  const fields = record
+    ? Object.entries(tableSchemas[table])
+        .filter(([field, spec]) => field !== primaryKeys[table] && spec.kind !== 'currency' && !HIDDEN_FIELDS.includes(field))
+        .map(([field]) => {
+          const metric = getMetricByPath(table === 'companies' ? field : `${table}.${field}`);
+          const conversion = conversions[`${table}.${field}`] ?? null;
+          return {
+            field,
+            label: metric?.label ?? prettify(field),
+            value: conversion?.rate === null ? 'n/a' : formatField(table, field, record[field], record),
+            conversion,
+            description: metric ? describeMetric(metric) : null,
+            source: `${table}.${field}${dataSource ? ` (${dataSource})` : ''}`,
+            updated,
+          };
+        })
+    : [];
+
+  return {
+    group,
+    label,
+    table,
+    recordId,
+    summary: recordId === null
+      ? `No ${table} record on file`
+      : `${table} #${recordId}, last updated ${updated ? updated.slice(0, 10) : 'undated'}`,
+    updated,
+    versions,
+    fields,
+  };
+}
+
+// Computed figures, one row per catalog metric; dated by the last price they use
+function buildPerformanceSection(group: MetricGroup, label: string, company: CompanyData): DetailSection {
+  const performance = company.price_performance ?? null;
+  const updated = performance?.price_date ?? null;
+  const fields = performance
+    ? PRICE_PERFORMANCE_FIELDS.map((field) => {
+        const metric = getMetricByPath(`price_performance.${field}`)!;
+        return {
+          field,
+          label: metric.label,
+          value: formatMetricValue(performance[field], metric.format, ''),
+          conversion: null, // Always in the stock's own quote currency
+          description: describeMetric(metric),
+          source: `stock_prices.price_value, computed${performance.price_currency ? ` in ${performance.price_currency}` : ''}`,
+          updated,
+        };
+      })
+    : [];
+
+  return {
+    group,
+    label,
+    table: 'stock_prices',
+    recordId: null,
+    summary: performance ? `Computed from stock_prices up to ${updated}` : 'No stock_prices on file',
+    updated,
+    versions: null,
+    fields,
+  };
+}
+
+// Sections in the table's group order: Company, Financials, ... Valuation, Price Performance
+export function buildCompanyDetails(company: CompanyData): DetailSection[] {
+  return METRIC_GROUPS.filter(({ group }) => group !== 'calculated').map(({ group, label }) => {
+    if (group === 'company') return buildSection(group, label, 'companies', company, null);
+    if (group === 'price_performance') return buildPerformanceSection(group, label, company);
+    const relation = group as CompanyRelation;
+    return buildSection(
+      group,
+      label,
+      relation,
+      company[relation] as Record<string, unknown> | null,
+      company.record_versions?.[relation] ?? null,
+      company.currency_conversions
+    );
+  });
+}
+
+// One link per address and type (the source lists the same Yahoo link many times),
+// with the latest validation date
+export function distinctUrls(urls: CompanyUrl[]): CompanyUrl[] {
+  const byKey = new Map<string, CompanyUrl>();
+  for (const url of urls) {
+    const key = `${url.url_type}|${url.url}`;
+    const seen = byKey.get(key);
+    if (!seen || (url.last_validated ?? '') > (seen.last_validated ?? '')) byKey.set(key, url);
+  }
+  return [...byKey.values()].sort((a, b) => (a.url_type ?? '').localeCompare(b.url_type ?? ''));
+}
@@ -0,0 +1,270 @@
+// src/lib/company-query.ts
+// Filtering, sorting, field projection and cursor pagination over CompanyData.
+// Used by /api/companies; query strings look like:
+//
+//   ?filter=status:eq:producer
+//   &filter=costs.aisc_last_year:lt:1400
+//   &sort=-financials.market_cap_value,company_name
+//   &fields=company_name,tsx_code,financials.market_cap_value
+//   &limit=50&cursor=<nextCursor from the previous page>
+//   &currency=USD (monetary fields converted and valuation ratios recomputed before filtering and sorting)
+//   &asOf=2025-01-31 (related records as they stood at that date; default latest)
+import type { CompanyData, TableName } from '@/types';
+import { FieldKind, tableSchemas } from '@/lib/validation';
+import { REPORTING_CURRENCIES, ReportingCurrency } from '@/lib/currency';
+import { parseAsOf } from '@/lib/company-data';
+import { PRICE_PERFORMANCE_FIELDS } from '@/lib/price-performance';
+
+// Tables nested under CompanyData as a single record
+const NESTED_TABLES = [
+  'financials',
+  'capital_structure',
+  'mineral_estimates',
+  'production',
+  'costs',
+  'valuation_metrics',
+] as const satisfies readonly TableName[];
+
+// Every queryable path ('company_name', 'financials.market_cap_value', ...) and its kind,
+// plus the computed 'price_performance.*' figures
+export const COMPANY_FIELDS: ReadonlyMap<string, FieldKind> = new Map([
+  ...Object.entries(tableSchemas.companies).map(([field, spec]) => [field, spec.kind] as const),
+  ...NESTED_TABLES.flatMap((table) =>
+    Object.entries(tableSchemas[table]).map(([field, spec]) => [`${table}.${field}`, spec.kind] as const)
+  ),
+  ...PRICE_PERFORMANCE_FIELDS.map((field) => [`price_performance.${field}`, 'number'] as const),
+]);
+
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+export type FilterOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in' | 'like' | 'null' | 'notnull';
+
+export type FieldFilter = {
+  field: string;
+  op: FilterOperator;
+  value: string | number | (string | number)[] | null;
+};
+
+export type SortKey = { field: string; desc: boolean };
+
+export type CompanyQuery = {
+  filters: FieldFilter[];
+  sort: SortKey[];
+  fields: string[] | null; // null = whole CompanyData
+  limit: number;
+  cursor: string | null;
+  currency: ReportingCurrency | null; // null = values as stored
+  asOf: string | null; // ISO timestamp; null = latest records
+};
+
+export type CompanyPage = {
+  data: Partial<CompanyData>[];
+  total: number; // Rows matching the filters, across all pages
+  nextCursor: string | null;
+};
+
+export const DEFAULT_LIMIT = 100;
+export const MAX_LIMIT = 500;
+
+const OPERATORS: FilterOperator[] = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in', 'like', 'null', 'notnull'];
+
+// Read a value by dotted path, e.g. getFieldValue(company, 'costs.aisc_last_year')
+export function getFieldValue(company: CompanyData, path: string): unknown {
+  let value: unknown = company;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined) return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value ?? null;
+}
+
+function isNumericKind(kind: FieldKind | undefined) {
+  return kind === 'number' || kind === 'integer';
+}
+
+// Non-column members of CompanyData that can still be projected
+const PROJECTABLE_EXTRAS = ['company_urls', 'currency_conversions', 'record_versions', 'valuation_checks', 'price_performance'];
+
+// Fields may name a whole relation ('financials') for projection, but filters need a column
+function assertField(field: string, allowRelation = false) {
+  if (COMPANY_FIELDS.has(field)) return;
+  if (allowRelation && ((NESTED_TABLES as readonly string[]).includes(field) || PROJECTABLE_EXTRAS.includes(field))) return;
+  throw new QueryError(`Unknown field "${field}"`);
+}
+
+function parseFilterValue(field: string, raw: string): string | number {
+  if (!isNumericKind(COMPANY_FIELDS.get(field))) return raw;
+  const n = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(n)) throw new QueryError(`Filter on "${field}" expects a number, got "${raw}"`);
+  return n;
+}
+
+// "field:op:value" - the value may itself contain ':' (timestamps), so only split twice
+export function parseFilter(expression: string): FieldFilter {
+  const first = expression.indexOf(':');
+  const second = first >= 0 ? expression.indexOf(':', first + 1) : -1;
+  const field = first >= 0 ? expression.slice(0, first) : expression;
+  const op = (second >= 0 ? expression.slice(first + 1, second) : expression.slice(first + 1)) as FilterOperator;
+  const raw = second >= 0 ? expression.slice(second + 1) : null;
+
+  assertField(field);
+  if (first < 0 || !OPERATORS.includes(op)) {
+    throw new QueryError(`Invalid filter "${expression}". Use field:op:value with op one of ${OPERATORS.join(', ')}`);
+  }
+  if (op === 'null' || op === 'notnull') return { field, op, value: null };
+  if (raw === null) throw new QueryError(`Filter "${expression}" is missing a value`);
+  if (op === 'in') return { field, op, value: raw.split('|').map((v) => parseFilterValue(field, v)) };
+  if (op === 'like') return { field, op, value: raw };
+  return { field, op, value: parseFilterValue(field, raw) };
+}
+
+export function parseSort(value: string | null): SortKey[] {
+  if (!value) return [];
+  return value.split(',').filter(Boolean).map((part) => {
+    const desc = part.startsWith('-');
+    const field = desc ? part.slice(1) : part;
+    assertField(field);
+    return { field, desc };
+  });
+}
+
+export function parseCompanyQuery(params: URLSearchParams): CompanyQuery {
+  const limitParam = params.get('limit');
+  const limit = limitParam === null ? DEFAULT_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new QueryError(`limit must be a whole number between 1 and ${MAX_LIMIT}`);
+  }
+
+  const fieldsParam = params.get('fields');
+  const fields = fieldsParam ? fieldsParam.split(',').filter(Boolean) : null;
+  fields?.forEach((field) => assertField(field, true));
+
+  const sort = parseSort(params.get('sort'));
+
+  const currency = params.get('currency')?.toUpperCase() ?? null;
+  if (currency !== null && !REPORTING_CURRENCIES.includes(currency as ReportingCurrency)) {
+    throw new QueryError(`currency must be one of ${REPORTING_CURRENCIES.join(', ')}`);
+  }
+
+  const asOfParam = params.get('asOf');
+  const asOf = asOfParam ? parseAsOf(asOfParam) : null;
+  if (asOfParam && !asOf) throw new QueryError(`asOf must be a date (YYYY-MM-DD) or ISO timestamp, got "${asOfParam}"`);
+
+  return {
+    filters: params.getAll('filter').map(parseFilter),
+    sort: sort.length > 0 ? sort : [{ field: 'company_name', desc: false }], // Same default order as the table
+    fields,
+    limit,
+    cursor: params.get('cursor'),
+    currency: currency as ReportingCurrency | null,
+    asOf,
+  };
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+}
+
+function matchesFilter(company: CompanyData, filter: FieldFilter): boolean {
+  const value = getFieldValue(company, filter.field);
+  if (filter.op === 'null') return value === null;
+  if (filter.op === 'notnull') return value !== null;
+  if (value === null) return false; // Missing values never match a comparison
+
+  switch (filter.op) {
+    case 'eq': return compareValues(value, filter.value) === 0;
+    case 'neq': return compareValues(value, filter.value) !== 0;
+    case 'lt': return compareValues(value, filter.value) < 0;
+    case 'lte': return compareValues(value, filter.value) <= 0;
+    case 'gt': return compareValues(value, filter.value) > 0;
+    case 'gte': return compareValues(value, filter.value) >= 0;
+    case 'in': return (filter.value as (string | number)[]).some((v) => compareValues(value, v) === 0);
+    case 'like': return String(value).toLowerCase().includes(String(filter.value).toLowerCase());
+  }
+}
+
+// Sort key tuple for a row: the sort fields, then company_id as a tie-breaker
+type RowKey = unknown[];
+
+function rowKey(company: CompanyData, sort: SortKey[]): RowKey {
+  return [...sort.map((s) => getFieldValue(company, s.field)), company.company_id];
+}
+
+// Nulls always sort last, whatever the direction
+function compareKeys(a: RowKey, b: RowKey, sort: SortKey[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const desc = sort[i]?.desc ?? false;
+    if (a[i] === null && b[i] === null) continue;
+    if (a[i] === null) return 1;
+    if (b[i] === null) return -1;
+    const result = compareValues(a[i], b[i]);
+    if (result !== 0) return desc ? -result : result;
+  }
+  return 0;
+}
+
+// Cursors carry the last row's sort key, so pages stay stable even if rows are added
+function encodeCursor(key: RowKey): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: SortKey[]): RowKey {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    // One value per sort field, then the company_id tie-breaker
+    if (Array.isArray(key) && key.length === sort.length + 1 && Number.isInteger(key.at(-1))) return key;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new QueryError('Invalid cursor (it must come from a request with the same sort)');
+}
+
+// Keep only the requested paths, preserving the nested shape
+function project(company: CompanyData, fields: string[]): Partial<CompanyData> {
+  const result: Record<string, unknown> = { company_id: company.company_id };
+  for (const field of fields) {
+    const [head, tail] = field.split('.');
+    if (!tail) {
+      result[head] = (company as Record<string, unknown>)[head] ?? null;
+      continue;
+    }
+    // Optional members (price_performance) may be absent rather than null
+    const relation = ((company as Record<string, unknown>)[head] ?? null) as Record<string, unknown> | null;
+    if (relation === null) {
+      result[head] ??= null;
+    } else {
+      const target = (result[head] ??= {}) as Record<string, unknown>;
+      target[tail] = relation[tail] ?? null;
+    }
+  }
+  return result as Partial<CompanyData>;
+}
+
+export function runCompanyQuery(companies: CompanyData[], query: CompanyQuery): CompanyPage {
+  const filtered = companies.filter((company) => query.filters.every((f) => matchesFilter(company, f)));
+  const keyed = filtered.map((company) => ({ company, key: rowKey(company, query.sort) }));
+  keyed.sort((a, b) => compareKeys(a.key, b.key, query.sort));
+
+  const start = query.cursor
+    ? (() => {
+        const after = decodeCursor(query.cursor, query.sort);
+        const index = keyed.findIndex((row) => compareKeys(row.key, after, query.sort) > 0);
+        return index < 0 ? keyed.length : index;
+      })()
+    : 0;
+
+  const page = keyed.slice(start, start + query.limit);
+  const hasMore = start + query.limit < keyed.length;
+
+  return {
+    data: page.map(({ company }) => (query.fields ? project(company, query.fields) : company)),
+    total: filtered.length,
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
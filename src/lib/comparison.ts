@@ -0,0 +1,63 @@
+// src/lib/comparison.ts
+// Side-by-side comparison of 2-8 companies (/companies/compare?ids=12,34,56): the ids in the
+// URL, and every metric laid out by catalog section with the best and worst value per row
+// picked by the metric's direction.
+import type { CompanyData, MetricConfig, MetricGroup } from '@/types';
+import { getMetricValue, getScoringValue, METRIC_GROUPS } from '@/lib/metrics';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 8;
+
+export type ComparisonRow = {
+  metric: MetricConfig;
+  values: (number | null)[]; // One per company, in column order
+  best: number | null; // Value to highlight as best; null when there is nothing to rank
+  worst: number | null;
+};
+
+export type ComparisonSection = {
+  group: MetricGroup;
+  label: string;
+  rows: ComparisonRow[];
+};
+
+// ?ids=12,34,56 -> [12, 34, 56]; junk and repeats dropped, at most MAX_COMPARE kept
+export function parseCompareIds(value: string | null | undefined): number[] {
+  const ids = (value ?? '').split(',').map((part) => Number(part.trim()));
+  return [...new Set(ids.filter((id) => Number.isInteger(id) && id > 0))].slice(0, MAX_COMPARE);
+}
+
+// Shareable link to the comparison; asOf is YYYY-MM-DD when the records are historical
+export function compareHref(ids: number[], asOf?: string | null): string {
+  const params = new URLSearchParams({ ids: ids.join(',') });
+  if (asOf) params.set('asOf', asOf);
+  return `/companies/compare?${params.toString().replace(/%2C/gi, ',')}`;
+}
+
+// Best and worst of the values present, ranked on the scoring value (higher is always
+// better); nothing is ranked when they are all the same
+function rankRow(companies: CompanyData[], metric: MetricConfig): { best: number | null; worst: number | null } {
+  const scores = companies
+    .map((company) => getScoringValue(company, metric))
+    .filter((score): score is number => score !== null);
+  const top = Math.max(...scores);
+  const bottom = Math.min(...scores);
+  if (scores.length < 2 || top === bottom) return { best: null, worst: null };
+  const value = (score: number) => (metric.higherIsBetter ? score : -score); // Back to the displayed value
+  return { best: value(top), worst: value(bottom) };
+}
+
+// One section per catalog group that has metrics, in the table's group order
+export function buildComparison(companies: CompanyData[], metrics: MetricConfig[]): ComparisonSection[] {
+  return METRIC_GROUPS.map(({ group, label }) => ({
+    group,
+    label,
+    rows: metrics
+      .filter((metric) => metric.group === group)
+      .map((metric) => ({
+        metric,
+        values: companies.map((company) => getMetricValue(company, metric)),
+        ...rankRow(companies, metric),
+      })),
+  })).filter(({ rows }) => rows.length > 0);
+}
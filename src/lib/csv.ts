@@ -0,0 +1,82 @@
+// src/lib/csv.ts
+// Minimal RFC 4180 CSV parser for the files in exported_csvs/, and the matching writer
+// for table exports. Handles quoted fields ("Toronto, Canada"), escaped quotes ("") and
+// newlines inside quotes.
+
+// Parse CSV text into rows of raw string cells
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'; // Escaped quote
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++; // CRLF
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Parse CSV text with a header line into objects keyed by column name.
+// Blank lines are skipped; missing trailing cells become ''.
+export function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...lines] = parseCsvRows(text.replace(/^﻿/, '')); // Strip BOM
+  if (!header) return [];
+
+  return lines
+    .filter((cells) => !(cells.length === 1 && cells[0] === ''))
+    .map((cells) => {
+      const record: Record<string, string> = {};
+      header.forEach((column, i) => {
+        record[column] = cells[i] ?? '';
+      });
+      return record;
+    });
+}
+
+// One CSV cell: quoted when it contains a comma, quote or line break; null is empty
+export function toCsvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number' ? (Number.isFinite(value) ? String(value) : '') : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rows of cells to CSV text with CRLF line endings (what Excel expects)
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map(toCsvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,197 @@
+// src/lib/currency.ts
+// Currency conversion driven by the exchange_rates table.
+// Every converted monetary field records the rate and rate date it used, so a
+// figure in the table can always be traced back to the original value.
+import type { CompanyData, CurrencyConversion, ExchangeRate, StockPrice } from '@/types';
+
+export const REPORTING_CURRENCIES = ['CAD', 'USD', 'AUD'] as const;
+export type ReportingCurrency = (typeof REPORTING_CURRENCIES)[number];
+export const DEFAULT_REPORTING_CURRENCY: ReportingCurrency = 'CAD'; // Most companies report in CAD
+
+type Rate = { rate: number; date: string };
+
+// Latest known rate per "FROM>TO" pair
+export type RateTable = Map<string, Rate>;
+
+// Pivot currency for cross rates (most pairs in the data go through USD)
+const PIVOT = 'USD';
+
+// Keep the most recent fetch_date for each pair; later rows win ties
+export function buildRateTable(exchangeRates: ExchangeRate[]): RateTable {
+  const table: RateTable = new Map();
+  for (const row of exchangeRates) {
+    const key = `${row.from_currency}>${row.to_currency}`;
+    const current = table.get(key);
+    if (!current || Date.parse(row.fetch_date) >= Date.parse(current.date)) {
+      table.set(key, { rate: row.rate, date: row.fetch_date });
+    }
+  }
+  return table;
+}
+
+// Direct rate, else the inverse of the opposite pair
+function directRate(table: RateTable, from: string, to: string): Rate | null {
+  const direct = table.get(`${from}>${to}`);
+  if (direct) return direct;
+  const inverse = table.get(`${to}>${from}`);
+  return inverse && inverse.rate !== 0 ? { rate: 1 / inverse.rate, date: inverse.date } : null;
+}
+
+// Find the rate for a pair, trying direct, inverse and then a cross through USD.
+// The rate date is the older of the two legs for cross rates.
+export function findRate(table: RateTable, from: string, to: string): CurrencyConversion {
+  if (from === to) return { from, to, rate: 1, rate_date: null };
+
+  const direct = directRate(table, from, to);
+  if (direct) return { from, to, rate: direct.rate, rate_date: direct.date };
+
+  if (from !== PIVOT && to !== PIVOT) {
+    const first = directRate(table, from, PIVOT);
+    const second = directRate(table, PIVOT, to);
+    if (first && second) {
+      const rateDate = Date.parse(first.date) <= Date.parse(second.date) ? first.date : second.date;
+      return { from, to, rate: first.rate * second.rate, rate_date: rateDate, via: PIVOT };
+    }
+  }
+  return { from, to, rate: null, rate_date: null }; // No way to convert
+}
+
+// Reporting currencies the exchange rates can reach. A rate to or from USD makes a currency
+// reachable from every other one through the USD cross; USD itself always is.
+export function availableCurrencies(table: RateTable): ReportingCurrency[] {
+  return REPORTING_CURRENCIES.filter((code) => findRate(table, code, PIVOT).rate !== null);
+}
+
+// Convert one amount. A value without a currency code can't be trusted in any currency,
+// so it comes back null with a rate-less conversion (shown as n/a) rather than as-is.
+export function convertAmount(
+  value: number | null,
+  from: string | null,
+  to: string,
+  table: RateTable
+): { value: number | null; conversion: CurrencyConversion | null } {
+  if (value === null || from === to) return { value, conversion: null };
+  if (!from) return { value: null, conversion: { from: null, to, rate: null, rate_date: null } };
+  const conversion = findRate(table, from, to);
+  return { value: conversion.rate === null ? null : value * conversion.rate, conversion };
+}
+
+// Every monetary field on CompanyData and the field holding its currency.
+// Income statement items without their own currency column use revenue_currency,
+// balance sheet items without one use cash_currency (that's how the source reports them).
+export const MONETARY_FIELDS = [
+  { relation: 'financials', field: 'cash_value', currency: 'cash_currency' },
+  { relation: 'financials', field: 'liabilities', currency: 'liabilities_currency' },
+  { relation: 'financials', field: 'other_financial_assets', currency: 'other_financial_assets_currency' },
+  { relation: 'financials', field: 'market_cap_value', currency: 'market_cap_currency' },
+  { relation: 'financials', field: 'enterprise_value_value', currency: 'enterprise_value_currency' },
+  { relation: 'financials', field: 'net_financial_assets', currency: 'net_financial_assets_currency' },
+  { relation: 'financials', field: 'revenue_value', currency: 'revenue_currency' },
+  { relation: 'financials', field: 'cost_of_revenue', currency: 'revenue_currency' },
+  { relation: 'financials', field: 'gross_profit', currency: 'revenue_currency' },
+  { relation: 'financials', field: 'operating_expense', currency: 'revenue_currency' },
+  { relation: 'financials', field: 'operating_income', currency: 'revenue_currency' },
+  { relation: 'financials', field: 'ebitda', currency: 'revenue_currency' },
+  { relation: 'financials', field: 'net_income_value', currency: 'net_income_currency' },
+  { relation: 'financials', field: 'debt_value', currency: 'debt_currency' },
+  { relation: 'financials', field: 'free_cash_flow', currency: 'cash_currency' },
+  { relation: 'capital_structure', field: 'options_revenue', currency: 'options_revenue_currency' },
+  { relation: 'costs', field: 'construction_costs', currency: 'construction_costs_currency' },
+  { relation: 'costs', field: 'aisc_last_quarter', currency: 'aisc_last_quarter_currency' },
+  { relation: 'costs', field: 'aisc_last_year', currency: 'aisc_last_year_currency' },
+  { relation: 'costs', field: 'aisc_future', currency: 'aisc_future_currency' },
+  { relation: 'costs', field: 'aic_last_quarter', currency: 'aic_last_quarter_currency' },
+  { relation: 'costs', field: 'aic_last_year', currency: 'aic_last_year_currency' },
+  { relation: 'costs', field: 'tco_current', currency: 'tco_current_currency' },
+  { relation: 'costs', field: 'tco_future', currency: 'tco_future_currency' },
+] as const;
+
+// Per-ounce valuation ratios carry no currency column; they are computed from
+// USD-converted market cap / EV, so they are treated as USD.
+export const VALUATION_CURRENCY = 'USD';
+export const VALUATION_FIELDS = [
+  'mkt_cap_per_reserve_oz_precious',
+  'mkt_cap_per_mi_oz_precious',
+  'mkt_cap_per_resource_oz_precious',
+  'mkt_cap_per_mineable_oz_precious',
+  'mkt_cap_per_reserve_oz_all',
+  'mkt_cap_per_mi_oz_all',
+  'mkt_cap_per_resource_oz_all',
+  'mkt_cap_per_mineable_oz_all',
+  'ev_per_reserve_oz_precious',
+  'ev_per_mi_oz_precious',
+  'ev_per_resource_oz_precious',
+  'ev_per_mineable_oz_precious',
+  'ev_per_reserve_oz_all',
+  'ev_per_mi_oz_all',
+  'ev_per_resource_oz_all',
+  'ev_per_mineable_oz_all',
+  'mkt_cap_per_production_oz',
+  'ev_per_production_oz',
+] as const;
+
+// Return a copy of the company with every monetary field in `target`.
+// Currency columns are rewritten to `target` (fields that share a currency column
+// are converted from the original code first), and currency_conversions records
+// each conversion by path, e.g. 'financials.enterprise_value_value'.
+export function normalizeCompanyCurrency(company: CompanyData, target: string, table: RateTable): CompanyData {
+  const result: CompanyData = {
+    ...company,
+    financials: company.financials && { ...company.financials },
+    capital_structure: company.capital_structure && { ...company.capital_structure },
+    costs: company.costs && { ...company.costs },
+    valuation_metrics: company.valuation_metrics && { ...company.valuation_metrics },
+    currency_conversions: {},
+  };
+
+  const currencyUpdates: { record: Record<string, unknown>; column: string }[] = [];
+
+  for (const { relation, field, currency } of MONETARY_FIELDS) {
+    const original = company[relation] as Record<string, unknown> | null;
+    const record = result[relation] as Record<string, unknown> | null;
+    if (!original || !record) continue;
+
+    const { value, conversion } = convertAmount(
+      original[field] as number | null,
+      original[currency] as string | null,
+      target,
+      table
+    );
+    record[field] = value;
+    if (conversion) result.currency_conversions![`${relation}.${field}`] = conversion;
+    if (original[currency]) currencyUpdates.push({ record, column: currency });
+  }
+
+  // Only now flip the currency codes, the loop above needs the originals
+  for (const { record, column } of currencyUpdates) record[column] = target;
+
+  if (company.valuation_metrics && result.valuation_metrics) {
+    for (const field of VALUATION_FIELDS) {
+      const { value, conversion } = convertAmount(company.valuation_metrics[field], VALUATION_CURRENCY, target, table);
+      result.valuation_metrics[field] = value;
+      if (conversion) result.currency_conversions![`valuation_metrics.${field}`] = conversion;
+    }
+  }
+  return result;
+}
+
+// Human readable note for a converted value, used in tooltips and exports
+export function describeConversion(conversion: CurrencyConversion): string {
+  if (conversion.from === null) return `No currency recorded for this value, so it can't be shown in ${conversion.to}`;
+  if (conversion.rate === null) return `No ${conversion.from}→${conversion.to} rate in exchange_rates`;
+  const via = conversion.via ? ` via ${conversion.via}` : '';
+  const date = conversion.rate_date ? ` (rate of ${conversion.rate_date.slice(0, 10)})` : '';
+  return `Converted from ${conversion.from} at ${conversion.rate.toPrecision(5)}${via}${date}`;
+}
+
+// Convert a price series into `target`; each price keeps its conversion alongside
+export function normalizeStockPrices(
+  prices: StockPrice[],
+  target: string,
+  table: RateTable
+): (StockPrice & { conversion: CurrencyConversion | null })[] {
+  return prices.map((price) => {
+    const { value, conversion } = convertAmount(price.price_value, price.price_currency, target, table);
+    return { ...price, price_value: value, price_currency: price.price_currency ? target : null, conversion };
+  });
+}
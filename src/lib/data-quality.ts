@@ -0,0 +1,356 @@
+// src/lib/data-quality.ts
+// Rule-based consistency checks over CompanyData. Validation (validation.ts) makes
+// sure each field has the right type; these rules look at how fields relate to
+// each other (EV vs market cap + debt - cash, M&I vs total resources, ...).
+// Run them on currency-normalized companies so amounts are comparable.
+import type {
+  CompanyData,
+  CompanyMineralEstimates,
+  CompanyProduction,
+  QualityIssue,
+  QualitySeverity,
+  TableName,
+} from '@/types';
+
+// Highest first; used for sorting and for the badge colour
+export const SEVERITIES: QualitySeverity[] = ['error', 'warning', 'info'];
+
+export type QualityRule = {
+  id: string;
+  table: TableName;
+  severity: QualitySeverity;
+  description: string;
+  // One message per problem found; an empty array means the company passes
+  check: (company: CompanyData) => { message: string; fields: string[] }[];
+};
+
+// Relative tolerance for identities built from separately reported figures
+const IDENTITY_TOLERANCE = 0.1;
+// Absolute slack for ounce sums, in Moz (rounding in the source data)
+const OUNCE_SLACK = 0.01;
+
+const ESTIMATE_CATEGORIES = ['reserves', 'measured_indicated', 'resources', 'potential', 'mineable'] as const;
+const METAL_CLASSES = ['precious', 'non_precious', 'total'] as const;
+
+function estimate(company: CompanyData, category: string, metal: string): number | null {
+  const field = `${category}_${metal}_aueq_moz` as keyof CompanyMineralEstimates;
+  return (company.mineral_estimates?.[field] as number | null | undefined) ?? null;
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+function relativeGap(a: number, b: number): number {
+  const scale = Math.max(Math.abs(a), Math.abs(b));
+  return scale === 0 ? 0 : Math.abs(a - b) / scale;
+}
+
+// Every rule, grouped by table. Ids are '<table>.<check>' and stay stable for the report.
+export const QUALITY_RULES: QualityRule[] = [
+  // --- Companies ---
+  {
+    id: 'companies.metal_split',
+    table: 'companies',
+    severity: 'warning',
+    description: 'percent_gold + percent_silver is above 100',
+    check: (c) =>
+      (c.percent_gold ?? 0) + (c.percent_silver ?? 0) > 100.5
+        ? [{ message: `Gold ${c.percent_gold}% + silver ${c.percent_silver}% exceeds 100%`, fields: ['percent_gold', 'percent_silver'] }]
+        : [],
+  },
+
+  // --- Financials ---
+  {
+    id: 'financials.missing',
+    table: 'financials',
+    severity: 'warning',
+    description: 'Company has no financials record',
+    check: (c) => (c.financials ? [] : [{ message: 'No financials record', fields: ['financials'] }]),
+  },
+  {
+    id: 'financials.market_cap_nonpositive',
+    table: 'financials',
+    severity: 'error',
+    description: 'Market cap is zero or negative',
+    check: (c) => {
+      const value = c.financials?.market_cap_value;
+      return value !== null && value !== undefined && value <= 0
+        ? [{ message: `Market cap is ${formatAmount(value)}`, fields: ['financials.market_cap_value'] }]
+        : [];
+    },
+  },
+  {
+    id: 'financials.negative_balance',
+    table: 'financials',
+    severity: 'error',
+    description: 'Cash, debt or liabilities are negative',
+    check: (c) =>
+      (['cash_value', 'debt_value', 'liabilities'] as const)
+        .filter((field) => (c.financials?.[field] ?? 0) < 0)
+        .map((field) => ({ message: `${field} is negative (${formatAmount(c.financials![field]!)})`, fields: [`financials.${field}`] })),
+  },
+  {
+    id: 'financials.ev_identity',
+    table: 'financials',
+    severity: 'warning',
+    description: `Enterprise value differs from market cap + debt - cash by more than ${IDENTITY_TOLERANCE * 100}%`,
+    check: (c) => {
+      const f = c.financials;
+      if (!f || f.enterprise_value_value === null || f.market_cap_value === null || f.cash_value === null) return [];
+      // Only comparable when the figures share a currency (always true after normalization)
+      const currencies = new Set([f.enterprise_value_currency, f.market_cap_currency, f.cash_currency, f.debt_value !== null ? f.debt_currency : null].filter(Boolean));
+      if (currencies.size > 1) return [];
+      const expected = f.market_cap_value + (f.debt_value ?? 0) - f.cash_value;
+      if (relativeGap(f.enterprise_value_value, expected) <= IDENTITY_TOLERANCE) return [];
+      return [{
+        message: `EV ${formatAmount(f.enterprise_value_value)} vs market cap + debt - cash = ${formatAmount(expected)}`,
+        fields: ['financials.enterprise_value_value', 'financials.market_cap_value', 'financials.debt_value', 'financials.cash_value'],
+      }];
+    },
+  },
+  {
+    id: 'financials.negative_pe',
+    table: 'financials',
+    severity: 'info',
+    description: 'Negative P/E (loss-making company); not meaningful for comparison',
+    check: (c) =>
+      (['trailing_pe', 'forward_pe'] as const)
+        .filter((field) => (c.financials?.[field] ?? 0) < 0)
+        .map((field) => ({ message: `${field} is ${formatAmount(c.financials![field]!)}`, fields: [`financials.${field}`] })),
+  },
+
+  // --- Capital structure ---
+  {
+    id: 'capital_structure.diluted_below_existing',
+    table: 'capital_structure',
+    severity: 'warning',
+    description: 'Fully diluted shares are fewer than existing shares',
+    check: (c) => {
+      const s = c.capital_structure;
+      if (!s || s.existing_shares === null || s.fully_diluted_shares === null) return [];
+      return s.fully_diluted_shares < s.existing_shares
+        ? [{
+            message: `Fully diluted ${formatAmount(s.fully_diluted_shares)} < existing ${formatAmount(s.existing_shares)}`,
+            fields: ['capital_structure.fully_diluted_shares', 'capital_structure.existing_shares'],
+          }]
+        : [];
+    },
+  },
+  {
+    id: 'capital_structure.shares_mismatch',
+    table: 'capital_structure',
+    severity: 'info',
+    description: `financials.shares_outstanding differs from existing_shares by more than ${IDENTITY_TOLERANCE * 100}%`,
+    check: (c) => {
+      const existing = c.capital_structure?.existing_shares ?? null;
+      const outstanding = c.financials?.shares_outstanding ?? null;
+      if (existing === null || outstanding === null || relativeGap(existing, outstanding) <= IDENTITY_TOLERANCE) return [];
+      return [{
+        message: `Shares outstanding ${formatAmount(outstanding)} vs existing shares ${formatAmount(existing)}`,
+        fields: ['financials.shares_outstanding', 'capital_structure.existing_shares'],
+      }];
+    },
+  },
+
+  // --- Mineral estimates ---
+  {
+    id: 'mineral_estimates.negative',
+    table: 'mineral_estimates',
+    severity: 'error',
+    description: 'An ounce estimate is negative',
+    check: (c) =>
+      ESTIMATE_CATEGORIES.flatMap((category) => METAL_CLASSES.map((metal) => ({ category, metal })))
+        .filter(({ category, metal }) => (estimate(c, category, metal) ?? 0) < 0)
+        .map(({ category, metal }) => ({
+          message: `${category} (${metal}) is ${estimate(c, category, metal)} Moz`,
+          fields: [`mineral_estimates.${category}_${metal}_aueq_moz`],
+        })),
+  },
+  {
+    id: 'mineral_estimates.mi_exceeds_resources',
+    table: 'mineral_estimates',
+    severity: 'error',
+    description: 'Measured & indicated is larger than total resources (which include M&I)',
+    check: (c) =>
+      METAL_CLASSES.flatMap((metal) => {
+        const mi = estimate(c, 'measured_indicated', metal);
+        const resources = estimate(c, 'resources', metal);
+        return mi !== null && resources !== null && mi > resources + OUNCE_SLACK
+          ? [{
+              message: `M&I ${mi} Moz > total resources ${resources} Moz (${metal})`,
+              fields: [`mineral_estimates.measured_indicated_${metal}_aueq_moz`, `mineral_estimates.resources_${metal}_aueq_moz`],
+            }]
+          : [];
+      }),
+  },
+  {
+    id: 'mineral_estimates.reserves_exceed_resources',
+    table: 'mineral_estimates',
+    severity: 'warning',
+    description: 'Reserves are larger than total resources (fine only if resources are reported exclusive of reserves)',
+    check: (c) =>
+      METAL_CLASSES.flatMap((metal) => {
+        const reserves = estimate(c, 'reserves', metal);
+        const resources = estimate(c, 'resources', metal);
+        return reserves !== null && resources !== null && reserves > resources + OUNCE_SLACK
+          ? [{
+              message: `Reserves ${reserves} Moz > total resources ${resources} Moz (${metal})`,
+              fields: [`mineral_estimates.reserves_${metal}_aueq_moz`, `mineral_estimates.resources_${metal}_aueq_moz`],
+            }]
+          : [];
+      }),
+  },
+  {
+    id: 'mineral_estimates.class_sum',
+    table: 'mineral_estimates',
+    severity: 'warning',
+    description: 'Precious + non-precious does not add up to the total',
+    check: (c) =>
+      ESTIMATE_CATEGORIES.flatMap((category) => {
+        const precious = estimate(c, category, 'precious');
+        const nonPrecious = estimate(c, category, 'non_precious');
+        const total = estimate(c, category, 'total');
+        if (precious === null || total === null) return [];
+        const sum = precious + (nonPrecious ?? 0);
+        return Math.abs(sum - total) > Math.max(OUNCE_SLACK, total * 0.01)
+          ? [{
+              message: `${category}: precious ${precious} + non-precious ${nonPrecious ?? 0} = ${formatAmount(sum)} Moz, total says ${total}`,
+              fields: [`mineral_estimates.${category}_total_aueq_moz`],
+            }]
+          : [];
+      }),
+  },
+
+  // --- Production ---
+  {
+    id: 'production.class_sum',
+    table: 'production',
+    severity: 'warning',
+    description: 'Precious + non-precious production does not add up to the total',
+    check: (c) => {
+      const p = c.production;
+      const field = (name: keyof CompanyProduction) => (p?.[name] as number | null | undefined) ?? null;
+      const precious = field('current_production_precious_aueq_koz');
+      const total = field('current_production_total_aueq_koz');
+      if (precious === null || total === null) return [];
+      const sum = precious + (field('current_production_non_precious_aueq_koz') ?? 0);
+      return Math.abs(sum - total) > Math.max(1, total * 0.01)
+        ? [{ message: `Current production adds up to ${formatAmount(sum)} koz, total says ${total}`, fields: ['production.current_production_total_aueq_koz'] }]
+        : [];
+    },
+  },
+
+  // --- Costs ---
+  {
+    id: 'costs.nonpositive',
+    table: 'costs',
+    severity: 'error',
+    description: 'AISC or AIC is zero or negative',
+    check: (c) =>
+      (['aisc_last_quarter', 'aisc_last_year', 'aisc_future', 'aic_last_quarter', 'aic_last_year'] as const)
+        .filter((field) => c.costs?.[field] !== null && c.costs?.[field] !== undefined && c.costs[field]! <= 0)
+        .map((field) => ({ message: `${field} is ${c.costs![field]}`, fields: [`costs.${field}`] })),
+  },
+  {
+    id: 'costs.aisc_exceeds_aic',
+    table: 'costs',
+    severity: 'warning',
+    description: 'AISC is higher than AIC (AIC adds growth capital on top of AISC)',
+    check: (c) =>
+      (['last_quarter', 'last_year'] as const).flatMap((period) => {
+        const aisc = c.costs?.[`aisc_${period}`] ?? null;
+        const aic = c.costs?.[`aic_${period}`] ?? null;
+        return aisc !== null && aic !== null && aisc > aic * (1 + 0.01)
+          ? [{ message: `AISC ${formatAmount(aisc)} > AIC ${formatAmount(aic)} (${period.replace('_', ' ')})`, fields: [`costs.aisc_${period}`, `costs.aic_${period}`] }]
+          : [];
+      }),
+  },
+
+  // --- Valuation metrics (needs applyDerivedValuations first) ---
+  {
+    id: 'valuation_metrics.stale',
+    table: 'valuation_metrics',
+    severity: 'info',
+    description: 'Stored valuation ratios disagree with ratios recomputed from current figures',
+    check: (c) => {
+      const paths = Object.keys(c.valuation_checks ?? {});
+      return paths.length > 0
+        ? [{ message: `${paths.length} stored ratio(s) out of date`, fields: paths }]
+        : [];
+    },
+  },
+];
+
+function severityRank(severity: QualitySeverity): number {
+  return SEVERITIES.indexOf(severity);
+}
+
+// Every issue for one company, most severe first
+export function checkCompanyQuality(company: CompanyData, rules: QualityRule[] = QUALITY_RULES): QualityIssue[] {
+  const issues = rules.flatMap((rule) =>
+    rule.check(company).map(({ message, fields }) => ({
+      ruleId: rule.id,
+      table: rule.table,
+      severity: rule.severity,
+      message,
+      fields,
+    }))
+  );
+  return issues.sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+}
+
+// Most severe level present, or null when the company is clean
+export function worstSeverity(issues: QualityIssue[]): QualitySeverity | null {
+  return issues.length > 0 ? issues[0].severity : null;
+}
+
+export type CompanyQualityReport = {
+  company_id: number;
+  company_name: string;
+  tsx_code: string;
+  issues: QualityIssue[];
+};
+
+export type TableQualitySummary = {
+  table: TableName;
+  counts: Record<QualitySeverity, number>;
+};
+
+export type QualityReport = {
+  companies: CompanyQualityReport[]; // Only companies with issues, worst first
+  tables: TableQualitySummary[];
+  rules: { rule: QualityRule; count: number }[];
+};
+
+// Full report across companies: per company (worst first, then by issue count)
+// and per table / per rule counts
+export function buildQualityReport(companies: CompanyData[], rules: QualityRule[] = QUALITY_RULES): QualityReport {
+  const reports: CompanyQualityReport[] = [];
+  const tables = new Map<TableName, Record<QualitySeverity, number>>();
+  const ruleCounts = new Map<string, number>();
+
+  for (const company of companies) {
+    const issues = checkCompanyQuality(company, rules);
+    if (issues.length === 0) continue;
+    reports.push({ company_id: company.company_id, company_name: company.company_name, tsx_code: company.tsx_code, issues });
+    for (const issue of issues) {
+      const counts = tables.get(issue.table) ?? { error: 0, warning: 0, info: 0 };
+      counts[issue.severity]++;
+      tables.set(issue.table, counts);
+      ruleCounts.set(issue.ruleId, (ruleCounts.get(issue.ruleId) ?? 0) + 1);
+    }
+  }
+
+  reports.sort((a, b) =>
+    severityRank(worstSeverity(a.issues)!) - severityRank(worstSeverity(b.issues)!) ||
+    b.issues.length - a.issues.length ||
+    a.company_name.localeCompare(b.company_name)
+  );
+
+  return {
+    companies: reports,
+    tables: [...tables.entries()].map(([table, counts]) => ({ table, counts })),
+    rules: rules.map((rule) => ({ rule, count: ruleCounts.get(rule.id) ?? 0 })),
+  };
+}
@@ -0,0 +1,103 @@
+// src/lib/data/local-repository.ts
+// Offline backend: reads the exported_csvs/ files and nests the related rows
+// under each company exactly like Supabase's nested select does.
+// The SQLite backend reuses the nesting with a different table reader.
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseCsv } from '@/lib/csv';
+import { formatCompanyRefs, formatCompanyRow, formatCompanyRows } from '@/lib/company-data';
+import { validateRows } from '@/lib/validation';
+import type { TableName } from '@/types';
+import type { CompanyRepository } from './repository';
+
+// Tables nested under a company, in the order COMPANY_SELECT_QUERY lists them
+const RELATED_TABLES = [
+  'financials',
+  'capital_structure',
+  'mineral_estimates',
+  'production',
+  'costs',
+  'valuation_metrics',
+  'company_urls',
+] as const satisfies readonly TableName[];
+
+export function getLocalDataDir(): string {
+  return path.resolve(process.cwd(), process.env.LOCAL_DATA_DIR || 'exported_csvs');
+}
+
+// Read one table's CSV as raw string records (validation happens later)
+export async function readCsvTable(table: TableName, dir = getLocalDataDir()): Promise<Record<string, string>[]> {
+  const file = path.join(dir, `${table}.csv`);
+  try {
+    return parseCsv(await readFile(file, 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Local data source: ${file} not found. Set LOCAL_DATA_DIR or export the CSVs first.`);
+    }
+    throw err;
+  }
+}
+
+export type TableReader = (table: TableName) => Promise<Record<string, unknown>[]>;
+
+// Build nested raw company rows: { ...company, financials: [...], company_urls: [...] },
+// for the given companies or every company when omitted
+export async function loadNestedCompanies(readTable: TableReader, companyIds?: number[]): Promise<Record<string, unknown>[]> {
+  const wanted = companyIds && new Set(companyIds);
+  const [companies, ...related] = await Promise.all([
+    readTable('companies'),
+    ...RELATED_TABLES.map((table) => readTable(table)),
+  ]);
+
+  const nested = new Map<string, Record<string, unknown>>();
+  for (const company of companies) {
+    if (wanted && !wanted.has(Number(company.company_id))) continue;
+    const row: Record<string, unknown> = { ...company };
+    RELATED_TABLES.forEach((table) => { row[table] = []; });
+    nested.set(String(company.company_id).trim(), row);
+  }
+
+  RELATED_TABLES.forEach((table, i) => {
+    for (const record of related[i]) {
+      // Rows pointing at an unknown company are orphans; Supabase's join would skip them too
+      (nested.get(String(record.company_id).trim())?.[table] as unknown[] | undefined)?.push(record);
+    }
+  });
+
+  return [...nested.values()];
+}
+
+export function createLocalRepository(dir = getLocalDataDir()): CompanyRepository {
+  const readTable: TableReader = (table) => readCsvTable(table, dir);
+
+  return {
+    async listCompanies(options) {
+      return formatCompanyRows(await loadNestedCompanies(readTable), options);
+    },
+
+    async getCompany(companyId, options) {
+      const [raw] = await loadNestedCompanies(readTable, [companyId]);
+      return raw ? formatCompanyRow(raw, options).company : null;
+    },
+
+    async getCompanies(companyIds, options) {
+      if (companyIds.length === 0) return [];
+      return formatCompanyRows(await loadNestedCompanies(readTable, companyIds), options).companies;
+    },
+
+    async listCompanyRefs() {
+      return formatCompanyRefs(await readTable('companies'));
+    },
+
+    async listExchangeRates() {
+      return validateRows('exchange_rates', await readTable('exchange_rates')).rows;
+    },
+
+    async listStockPrices(companyIds) {
+      const { rows } = validateRows('stock_prices', await readTable('stock_prices'));
+      if (!companyIds) return rows;
+      const ids = new Set(companyIds);
+      return rows.filter((price) => ids.has(price.company_id));
+    },
+  };
+}
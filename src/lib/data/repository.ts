@@ -0,0 +1,94 @@
+// src/lib/data/repository.ts
+// Data-source abstraction for company data. Pages and route handlers talk to a
+// CompanyRepository; which backend serves it is chosen by the DATA_SOURCE env var:
+//   DATA_SOURCE=supabase (default) -> Supabase tables
+//   DATA_SOURCE=local              -> exported_csvs/ on disk (LOCAL_DATA_DIR to override)
+//   DATA_SOURCE=sqlite             -> mining_companies.db (LOCAL_DB_PATH to override)
+// Every backend feeds the same formatCompanyRows step, so results are identical,
+// and the same price_performance step (src/lib/price-performance.ts) on top.
+import type { CompanyData, CompanyRef, ExchangeRate, StockPrice } from '@/types';
+import type { FieldIssue } from '@/lib/validation';
+import type { RecordSelectionOptions } from '@/lib/company-data';
+import { applyPricePerformance } from '@/lib/price-performance';
+import { createLocalRepository } from './local-repository';
+import { createSqliteRepository } from './sqlite-repository';
+import { createSupabaseRepository } from './supabase-repository';
+
+export type CompanyResult = {
+  companies: CompanyData[];
+  issues: FieldIssue[]; // Fields that failed validation (nulled, or their row dropped)
+};
+
+export interface CompanyRepository {
+  // Every company with its related records, ordered by company name.
+  // Each relation shows its latest record, or the one current at options.asOf.
+  listCompanies(options?: RecordSelectionOptions): Promise<CompanyResult>;
+  // A single company, or null when the id doesn't exist
+  getCompany(companyId: number, options?: RecordSelectionOptions): Promise<CompanyData | null>;
+  // Several companies in one read, ordered by company name; unknown ids are left out
+  getCompanies(companyIds: number[], options?: RecordSelectionOptions): Promise<CompanyData[]>;
+  // Id, name and ticker of every company, ordered by name. Reads only the companies table
+  // (no related records or prices), for pickers that just need to list them.
+  listCompanyRefs(): Promise<CompanyRef[]>;
+  // Every exchange rate row (validated; invalid rows dropped), for currency normalization
+  listExchangeRates(): Promise<ExchangeRate[]>;
+  // Daily prices (validated; invalid rows dropped) in their own currency, for the given
+  // companies or every company when omitted
+  listStockPrices(companyIds?: number[]): Promise<StockPrice[]>;
+}
+
+const DATA_SOURCES = ['supabase', 'local', 'sqlite'] as const;
+
+export type DataSource = (typeof DATA_SOURCES)[number];
+
+export function getDataSource(): DataSource {
+  const source = (process.env.DATA_SOURCE || 'supabase').toLowerCase() as DataSource;
+  if (!DATA_SOURCES.includes(source)) {
+    throw new Error(`Unknown DATA_SOURCE "${process.env.DATA_SOURCE}". Use ${DATA_SOURCES.map((s) => `"${s}"`).join(', ')}.`);
+  }
+  return source;
+}
+
+// Companies come back with price_performance computed from their prices (as of options.asOf)
+function withPricePerformance(repository: CompanyRepository): CompanyRepository {
+  return {
+    ...repository,
+
+    async listCompanies(options) {
+      const [result, prices] = await Promise.all([repository.listCompanies(options), repository.listStockPrices()]);
+      return { ...result, companies: applyPricePerformance(result.companies, prices, options?.asOf) };
+    },
+
+    async getCompany(companyId, options) {
+      const [company, prices] = await Promise.all([
+        repository.getCompany(companyId, options),
+        repository.listStockPrices([companyId]),
+      ]);
+      return company ? applyPricePerformance([company], prices, options?.asOf)[0] : null;
+    },
+
+    async getCompanies(companyIds, options) {
+      const [companies, prices] = await Promise.all([
+        repository.getCompanies(companyIds, options),
+        repository.listStockPrices(companyIds),
+      ]);
+      return applyPricePerformance(companies, prices, options?.asOf);
+    },
+  };
+}
+
+function createRepository(source: DataSource): CompanyRepository {
+  switch (source) {
+    case 'local':
+      return createLocalRepository();
+    case 'sqlite':
+      return createSqliteRepository();
+    default:
+      return createSupabaseRepository();
+  }
+}
+
+// Server-only: the local backends read from disk
+export function getCompanyRepository(source: DataSource = getDataSource()): CompanyRepository {
+  return withPricePerformance(createRepository(source));
+}
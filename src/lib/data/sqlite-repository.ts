@@ -0,0 +1,66 @@
+// src/lib/data/sqlite-repository.ts
+// Offline backend over mining_companies.db (build it with `npm run db:load`).
+import { formatCompanyRefs, formatCompanyRow, formatCompanyRows } from '@/lib/company-data';
+import { validateRows } from '@/lib/validation';
+import { type Database, getDatabasePath, openDatabase, queryAll } from '@/lib/db/sqlite';
+import { loadNestedCompanies, type TableReader } from './local-repository';
+import type { CompanyRepository } from './repository';
+
+// Open the file for the duration of one call; sql.js keeps the whole db in memory
+async function withDatabase<T>(file: string, fn: (db: Database) => Promise<T>): Promise<T> {
+  const db = await openDatabase(file);
+  try {
+    return await fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+function tableReader(db: Database): TableReader {
+  return async (table) => {
+    try {
+      return queryAll(db, `SELECT * FROM ${table}`);
+    } catch (err) {
+      throw new Error(`SQLite data source: cannot read "${table}" (${err instanceof Error ? err.message : err}). Run npm run db:load first.`);
+    }
+  };
+}
+
+export function createSqliteRepository(file = getDatabasePath()): CompanyRepository {
+  return {
+    async listCompanies(options) {
+      return withDatabase(file, async (db) => formatCompanyRows(await loadNestedCompanies(tableReader(db)), options));
+    },
+
+    async getCompany(companyId, options) {
+      return withDatabase(file, async (db) => {
+        const [raw] = await loadNestedCompanies(tableReader(db), [companyId]);
+        return raw ? formatCompanyRow(raw, options).company : null;
+      });
+    },
+
+    async getCompanies(companyIds, options) {
+      if (companyIds.length === 0) return [];
+      return withDatabase(file, async (db) => formatCompanyRows(await loadNestedCompanies(tableReader(db), companyIds), options).companies);
+    },
+
+    async listCompanyRefs() {
+      return withDatabase(file, async (db) => formatCompanyRefs(await tableReader(db)('companies')));
+    },
+
+    async listExchangeRates() {
+      return withDatabase(file, async (db) => validateRows('exchange_rates', await tableReader(db)('exchange_rates')).rows);
+    },
+
+    async listStockPrices(companyIds) {
+      if (!companyIds) {
+        return withDatabase(file, async (db) => validateRows('stock_prices', await tableReader(db)('stock_prices')).rows);
+      }
+      if (companyIds.length === 0) return [];
+      return withDatabase(file, async (db) => {
+        const placeholders = companyIds.map(() => '?').join(', ');
+        return validateRows('stock_prices', queryAll(db, `SELECT * FROM stock_prices WHERE company_id IN (${placeholders})`, companyIds)).rows;
+      });
+    },
+  };
+}
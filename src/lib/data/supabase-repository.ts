@@ -0,0 +1,72 @@
+// src/lib/data/supabase-repository.ts
+import { createClient } from '@/lib/supabase/server';
+import { COMPANY_SELECT_QUERY, formatCompanyRefs, formatCompanyRow, formatCompanyRows } from '@/lib/company-data';
+import { validateRows } from '@/lib/validation';
+import type { CompanyRepository } from './repository';
+
+// Rows per request when reading a table in pages
+const PAGE_SIZE = 1000;
+
+export function createSupabaseRepository(): CompanyRepository {
+  const supabase = createClient();
+
+  return {
+    // Every version comes back from the nested select; formatCompanyRows picks one
+    async listCompanies(options) {
+      const { data, error } = await supabase
+        .from('companies')
+        .select(COMPANY_SELECT_QUERY);
+      if (error) throw new Error(`Supabase: ${error.message}`);
+      return formatCompanyRows(data ?? [], options);
+    },
+
+    async getCompany(companyId, options) {
+      const { data, error } = await supabase
+        .from('companies')
+        .select(COMPANY_SELECT_QUERY)
+        .eq('company_id', companyId)
+        .maybeSingle();
+      if (error) throw new Error(`Supabase: ${error.message}`);
+      return data ? formatCompanyRow(data, options).company : null;
+    },
+
+    async getCompanies(companyIds, options) {
+      if (companyIds.length === 0) return [];
+      const { data, error } = await supabase
+        .from('companies')
+        .select(COMPANY_SELECT_QUERY)
+        .in('company_id', companyIds);
+      if (error) throw new Error(`Supabase: ${error.message}`);
+      return formatCompanyRows(data ?? [], options).companies;
+    },
+
+    // Only the three columns; validation reads the others as null
+    async listCompanyRefs() {
+      const { data, error } = await supabase.from('companies').select('company_id, company_name, tsx_code');
+      if (error) throw new Error(`Supabase: ${error.message}`);
+      return formatCompanyRefs(data ?? []);
+    },
+
+    async listExchangeRates() {
+      const { data, error } = await supabase.from('exchange_rates').select('*');
+      if (error) throw new Error(`Supabase: ${error.message}`);
+      return validateRows('exchange_rates', data ?? []).rows;
+    },
+
+    // Paged: the whole table is well past PostgREST's default 1000-row limit
+    async listStockPrices(companyIds) {
+      if (companyIds?.length === 0) return [];
+      const rows: unknown[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const query = supabase.from('stock_prices').select('*');
+        const { data, error } = await (companyIds ? query.in('company_id', companyIds) : query)
+          .order('price_id')
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(`Supabase: ${error.message}`);
+        rows.push(...(data ?? []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+      return validateRows('stock_prices', rows).rows;
+    },
+  };
+}
@@ -0,0 +1,80 @@
+// src/lib/db/drivers.ts
+// Minimal database drivers the migration runner talks to.
+// Statements use `?` placeholders; the Postgres driver rewrites them to $1, $2, ...
+import { type Database, openDatabase, queryAll, saveDatabase } from './sqlite';
+
+export type MigrationTarget = 'sqlite' | 'postgres';
+
+export interface MigrationDriver {
+  target: MigrationTarget;
+  exec(sql: string): Promise<void>; // One or more statements, no parameters
+  query(sql: string, params?: (string | number | null)[]): Promise<Record<string, unknown>[]>;
+  transaction(fn: () => Promise<void>): Promise<void>;
+  close(): Promise<void>; // SQLite writes the file back here
+}
+
+async function runInTransaction(driver: Pick<MigrationDriver, 'exec'>, fn: () => Promise<void>) {
+  await driver.exec('BEGIN;');
+  try {
+    await fn();
+    await driver.exec('COMMIT;');
+  } catch (err) {
+    await driver.exec('ROLLBACK;');
+    throw err;
+  }
+}
+
+// Driver over an already open sql.js database; the caller owns saving and closing it
+export function wrapSqliteDatabase(db: Database): MigrationDriver {
+  const driver: MigrationDriver = {
+    target: 'sqlite',
+    async exec(sql) {
+      db.exec(sql);
+    },
+    async query(sql, params = []) {
+      return queryAll(db, sql, params);
+    },
+    transaction: (fn) => runInTransaction(driver, fn),
+    async close() {},
+  };
+  return driver;
+}
+
+// SQLite file through sql.js: works on an in-memory copy and writes it back on close
+export async function createSqliteDriver(file: string): Promise<MigrationDriver> {
+  const db = await openDatabase(file);
+  return {
+    ...wrapSqliteDatabase(db),
+    async close() {
+      try {
+        await saveDatabase(db, file);
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
+
+// Postgres / Supabase via a connection string, e.g. DATABASE_URL from the Supabase dashboard
+export async function createPostgresDriver(connectionString: string): Promise<MigrationDriver> {
+  const { Client } = await import('pg'); // Only needed when targeting Postgres
+  const client = new Client({ connectionString });
+  await client.connect();
+
+  const driver: MigrationDriver = {
+    target: 'postgres',
+    async exec(sql) {
+      await client.query(sql);
+    },
+    async query(sql, params = []) {
+      let index = 0;
+      const text = sql.replace(/\?/g, () => `$${++index}`);
+      return (await client.query(text, params)).rows;
+    },
+    transaction: (fn) => runInTransaction(driver, fn),
+    async close() {
+      await client.end();
+    },
+  };
+  return driver;
+}
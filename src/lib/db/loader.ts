@@ -0,0 +1,129 @@
+// src/lib/db/loader.ts
+// Builds the local SQLite database from exported_csvs/.
+// Idempotent: every run builds a brand new database (schema from migrations/) and
+// then replaces the file, so the same CSVs always give the same data.
+// Rows that can't be loaded are reported, not guessed at.
+import type { TableName, TableRowTypes } from '@/types';
+import { FieldIssue, formatIssue, primaryKeys, tableSchemas, validateRow } from '@/lib/validation';
+import { readCsvTable } from '@/lib/data/local-repository';
+import { type Database, createDatabase, saveDatabase } from './sqlite';
+import { wrapSqliteDatabase } from './drivers';
+import { getMigrationsDir, migrateUp, readMigrations } from './migrations';
+
+// Parents before children so foreign keys resolve
+export const LOAD_ORDER: TableName[] = [
+  'companies',
+  'exchange_rates',
+  'financials',
+  'capital_structure',
+  'costs',
+  'mineral_estimates',
+  'production',
+  'valuation_metrics',
+  'stock_prices',
+  'company_urls',
+];
+
+export type RejectedRow = {
+  table: TableName;
+  line: number; // 1-based line in the CSV, header is line 1
+  rowId: number | string | null;
+  reason: string;
+};
+
+export type TableLoadReport = {
+  table: TableName;
+  read: number;
+  loaded: number;
+  rejected: RejectedRow[];
+  warnings: FieldIssue[]; // Fields set to null, row still loaded
+};
+
+export type LoadOptions = {
+  csvDir: string;
+  dbFile: string;
+  migrationsDir?: string; // Defaults to migrations/ in the project root
+};
+
+// Validate one table's CSV rows and check keys; returns the rows that can be inserted
+function prepareTable<K extends TableName>(
+  table: K,
+  records: Record<string, string>[],
+  companyIds: Set<number>
+): { rows: TableRowTypes[K][]; report: TableLoadReport } {
+  const pk = primaryKeys[table];
+  const seen = new Set<number>();
+  const rows: TableRowTypes[K][] = [];
+  const report: TableLoadReport = { table, read: records.length, loaded: 0, rejected: [], warnings: [] };
+
+  records.forEach((record, i) => {
+    const line = i + 2;
+    const result = validateRow(table, record);
+    const rowId = (result.value?.[pk] as number | undefined) ?? record[pk] ?? null;
+
+    if (!result.value) {
+      report.rejected.push({ table, line, rowId, reason: result.issues.map(formatIssue).join('; ') });
+      return;
+    }
+    const id = result.value[pk] as number;
+    if (seen.has(id)) {
+      report.rejected.push({ table, line, rowId, reason: `duplicate ${pk} ${id}` });
+      return;
+    }
+    const companyId = (result.value as { company_id?: number }).company_id;
+    if (table !== 'companies' && companyId !== undefined && !companyIds.has(companyId)) {
+      report.rejected.push({ table, line, rowId, reason: `company_id ${companyId} not found in companies` });
+      return;
+    }
+
+    seen.add(id);
+    rows.push(result.value);
+    report.warnings.push(...result.issues);
+  });
+
+  report.loaded = rows.length;
+  return { rows, report };
+}
+
+function insertRows<K extends TableName>(db: Database, table: K, rows: TableRowTypes[K][]) {
+  const columns = Object.keys(tableSchemas[table]);
+  const jsonColumns = columns.filter((c) => (tableSchemas[table] as Record<string, { kind: string }>)[c].kind === 'json');
+  const statement = db.prepare(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+  );
+  try {
+    for (const row of rows) {
+      const values = columns.map((column) => {
+        const value = (row as Record<string, unknown>)[column];
+        if (value === null || value === undefined) return null;
+        return jsonColumns.includes(column) ? JSON.stringify(value) : (value as string | number);
+      });
+      statement.run(values);
+    }
+  } finally {
+    statement.free();
+  }
+}
+
+export async function loadDatabaseFromCsv({ csvDir, dbFile, migrationsDir }: LoadOptions): Promise<TableLoadReport[]> {
+  const migrations = await readMigrations(migrationsDir ?? getMigrationsDir());
+  const records = await Promise.all(LOAD_ORDER.map((table) => readCsvTable(table, csvDir)));
+
+  // Companies first: their ids decide which child rows are valid
+  const companies = prepareTable('companies', records[0], new Set());
+  const companyIds = new Set(companies.rows.map((c) => c.company_id));
+  const prepared = LOAD_ORDER.map((table, i) => (i === 0 ? companies : prepareTable(table, records[i], companyIds)));
+
+  const db = await createDatabase();
+  try {
+    await migrateUp(wrapSqliteDatabase(db), migrations);
+    db.exec('BEGIN;');
+    LOAD_ORDER.forEach((table, i) => insertRows(db, table, prepared[i].rows));
+    db.exec('COMMIT;');
+    await saveDatabase(db, dbFile); // Only now is the old file replaced
+  } finally {
+    db.close();
+  }
+
+  return prepared.map((p) => p.report);
+}
@@ -0,0 +1,204 @@
+// src/lib/db/migrations.ts
+// Versioned schema migrations for the analysis database.
+//
+// Files live in migrations/ as NNNN_name.up.sql + NNNN_name.down.sql, applied in
+// version order. Each applied migration is recorded in schema_migrations with a
+// SHA-256 checksum of its up file, so editing a migration after it ran is caught
+// instead of silently diverging between machines.
+//
+// The same files run against SQLite (mining_companies.db) and Postgres/Supabase,
+// so write them in the SQL both accept (see 0001_initial_schema.up.sql).
+import { createHash } from 'crypto';
+import { readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { MigrationDriver } from './drivers';
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null; // null when there is no .down.sql file
+  checksum: string;
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+};
+
+export type MigrationState =
+  | 'applied'
+  | 'pending'
+  | 'changed' // Applied, but the file's checksum no longer matches
+  | 'missing'; // Recorded as applied, but the file is gone
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt: string | null;
+};
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+const FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+const BOOKKEEPING_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version    INTEGER PRIMARY KEY,
+    name       TEXT NOT NULL,
+    checksum   TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  );
+`;
+
+export function getMigrationsDir(): string {
+  return path.resolve(process.cwd(), 'migrations');
+}
+
+// Line endings are normalised so a Windows checkout doesn't look like an edit
+function checksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+// Read and pair up/down files, ordered by version
+export async function readMigrations(dir = getMigrationsDir()): Promise<Migration[]> {
+  const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of (await readdir(dir)).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+    const [, versionText, name, direction] = match;
+    const version = Number(versionText);
+    const entry = byVersion.get(version) ?? { name };
+    if (entry.name !== name) {
+      throw new MigrationError(`Two migrations share version ${version}: ${entry.name} and ${name}`);
+    }
+    entry[direction as 'up' | 'down'] = await readFile(path.join(dir, file), 'utf8');
+    byVersion.set(version, entry);
+  }
+
+  return [...byVersion.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined) throw new MigrationError(`Migration ${version}_${entry.name} has no .up.sql file`);
+      return { version, name: entry.name, up: entry.up, down: entry.down ?? null, checksum: checksum(entry.up) };
+    });
+}
+
+async function readApplied(driver: MigrationDriver): Promise<AppliedMigration[]> {
+  await driver.exec(BOOKKEEPING_TABLE);
+  const rows = await driver.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  return rows.map((row) => ({
+    version: Number(row.version),
+    name: String(row.name),
+    checksum: String(row.checksum),
+    applied_at: String(row.applied_at),
+  }));
+}
+
+export async function getMigrationStatus(driver: MigrationDriver, migrations: Migration[]): Promise<MigrationStatus[]> {
+  const applied = new Map((await readApplied(driver)).map((m) => [m.version, m]));
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const record = applied.get(migration.version);
+    applied.delete(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !record ? 'pending' : record.checksum === migration.checksum ? 'applied' : 'changed',
+      appliedAt: record?.applied_at ?? null,
+    };
+  });
+
+  // Whatever is left was applied from a file that no longer exists
+  for (const record of applied.values()) {
+    statuses.push({ version: record.version, name: record.name, state: 'missing', appliedAt: record.applied_at });
+  }
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+// Refuse to run on top of history that doesn't match the files
+function assertConsistent(statuses: MigrationStatus[]) {
+  const problems = statuses.filter((s) => s.state === 'changed' || s.state === 'missing');
+  if (problems.length > 0) {
+    throw new MigrationError(
+      problems
+        .map((s) => `${s.version}_${s.name}: ${s.state === 'changed' ? 'file changed after it was applied' : 'applied but file is missing'}`)
+        .join('\n')
+    );
+  }
+}
+
+// Apply pending migrations in order (up to and including `to` when given).
+// Each migration runs in its own transaction together with its bookkeeping row.
+export async function migrateUp(
+  driver: MigrationDriver,
+  migrations: Migration[],
+  options: { to?: number } = {}
+): Promise<Migration[]> {
+  const statuses = await getMigrationStatus(driver, migrations);
+  assertConsistent(statuses);
+
+  const pending = migrations.filter(
+    (m) => statuses.find((s) => s.version === m.version)?.state === 'pending' && (options.to === undefined || m.version <= options.to)
+  );
+
+  for (const migration of pending) {
+    await driver.transaction(async () => {
+      await driver.exec(migration.up);
+      await driver.query(
+        'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)',
+        [migration.version, migration.name, migration.checksum, new Date().toISOString()]
+      );
+    });
+  }
+  return pending;
+}
+
+// Roll back the latest `steps` applied migrations (default 1), newest first
+export async function migrateDown(
+  driver: MigrationDriver,
+  migrations: Migration[],
+  options: { steps?: number } = {}
+): Promise<Migration[]> {
+  const statuses = await getMigrationStatus(driver, migrations);
+  assertConsistent(statuses);
+
+  const applied = statuses.filter((s) => s.state === 'applied').reverse().slice(0, options.steps ?? 1);
+  const reverted: Migration[] = [];
+
+  for (const status of applied) {
+    const migration = migrations.find((m) => m.version === status.version)!;
+    if (migration.down === null) {
+      throw new MigrationError(`${migration.version}_${migration.name} has no .down.sql file, cannot roll back`);
+    }
+    await driver.transaction(async () => {
+      await driver.exec(migration.down!);
+      await driver.query('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+    });
+    reverted.push(migration);
+  }
+  return reverted;
+}
+
+// Scaffold the next migration pair, e.g. createMigration('add_mineable_ratios')
+export async function createMigration(name: string, dir = getMigrationsDir()): Promise<string[]> {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  if (!slug) throw new MigrationError('Migration name is required');
+
+  const existing = await readMigrations(dir);
+  const version = (existing.at(-1)?.version ?? 0) + 1;
+  const base = `${String(version).padStart(4, '0')}_${slug}`;
+  const files = [`${base}.up.sql`, `${base}.down.sql`];
+
+  await writeFile(path.join(dir, files[0]), `-- ${files[0]}\n\n`, { flag: 'wx' });
+  await writeFile(path.join(dir, files[1]), `-- ${files[1]}\n-- Undo everything ${files[0]} does\n\n`, { flag: 'wx' });
+  return files;
+}
@@ -0,0 +1,62 @@
+// src/lib/db/sqlite.ts
+// Thin helpers around sql.js (SQLite compiled to WebAssembly, no native build needed).
+// sql.js works on an in-memory copy: open reads the file, save writes it back.
+import initSqlJs, { type Database, type SqlJsStatic, type SqlValue } from 'sql.js';
+import { readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+export type { Database };
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function getSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
+
+// Path of the local analysis database (LOCAL_DB_PATH overrides the default)
+export function getDatabasePath(): string {
+  return path.resolve(process.cwd(), process.env.LOCAL_DB_PATH || 'mining_companies.db');
+}
+
+// Open a database file; a missing or empty file gives a fresh, empty database
+export async function openDatabase(file = getDatabasePath()): Promise<Database> {
+  const SQL = await getSqlJs();
+  let data: Buffer | null = null;
+  try {
+    data = await readFile(file);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+  const db = new SQL.Database(data && data.length > 0 ? data : undefined);
+  db.exec('PRAGMA foreign_keys = ON;');
+  return db;
+}
+
+// Fresh in-memory database, nothing read from disk
+export async function createDatabase(): Promise<Database> {
+  const SQL = await getSqlJs();
+  const db = new SQL.Database();
+  db.exec('PRAGMA foreign_keys = ON;');
+  return db;
+}
+
+// Write the database back to disk (via a temp file so a crash never leaves half a file)
+export async function saveDatabase(db: Database, file = getDatabasePath()): Promise<void> {
+  const tmp = `${file}.tmp`;
+  await writeFile(tmp, db.export());
+  await rename(tmp, file);
+}
+
+// Run a query and return rows as plain objects
+export function queryAll(db: Database, sql: string, params: SqlValue[] = []): Record<string, SqlValue>[] {
+  const statement = db.prepare(sql);
+  try {
+    statement.bind(params);
+    const rows: Record<string, SqlValue>[] = [];
+    while (statement.step()) rows.push(statement.getAsObject());
+    return rows;
+  } finally {
+    statement.free();
+  }
+}
@@ -0,0 +1,116 @@
+// src/lib/derived-metrics.ts
+// Recomputes the per-ounce valuation ratios from financials, mineral_estimates and
+// production, so they always match the figures on screen (and their currency).
+// The stored valuation_metrics values are kept for comparison: where the two
+// disagree, the company gets a valuation_checks entry holding both.
+import type { CompanyData, CompanyMineralEstimates, CompanyProduction, ValuationMetrics } from '@/types';
+
+export type ValuationRatioKey = Exclude<keyof ValuationMetrics, 'valuation_id' | 'company_id' | 'last_updated'>;
+
+type Denominator =
+  | { relation: 'mineral_estimates'; field: keyof CompanyMineralEstimates; ounces: number }
+  | { relation: 'production'; field: keyof CompanyProduction; ounces: number };
+
+export type ValuationRatio = {
+  key: ValuationRatioKey;
+  numerator: 'market_cap_value' | 'enterprise_value_value';
+  denominator: Denominator;
+};
+
+// Relative difference above which a stored ratio counts as out of date
+export const RATIO_TOLERANCE = 0.005;
+
+const NUMERATORS = [
+  { prefix: 'mkt_cap', field: 'market_cap_value' },
+  { prefix: 'ev', field: 'enterprise_value_value' },
+] as const;
+
+// Ratio key stem -> mineral_estimates column stem
+const ESTIMATE_CATEGORIES = [
+  { stem: 'reserve', column: 'reserves' },
+  { stem: 'mi', column: 'measured_indicated' },
+  { stem: 'resource', column: 'resources' },
+  { stem: 'mineable', column: 'mineable' },
+] as const;
+
+// Ratio key suffix -> mineral_estimates column metal class
+const METAL_CLASSES = [
+  { suffix: 'precious', column: 'precious' },
+  { suffix: 'all', column: 'total' },
+] as const;
+
+// Every ratio in valuation_metrics, e.g. ev_per_mi_oz_precious =
+// enterprise_value_value / (measured_indicated_precious_aueq_moz * 1e6)
+export const VALUATION_RATIOS: ValuationRatio[] = NUMERATORS.flatMap(({ prefix, field }) => [
+  ...ESTIMATE_CATEGORIES.flatMap((category) =>
+    METAL_CLASSES.map((metal) => ({
+      key: `${prefix}_per_${category.stem}_oz_${metal.suffix}` as ValuationRatioKey,
+      numerator: field,
+      denominator: {
+        relation: 'mineral_estimates' as const,
+        field: `${category.column}_${metal.column}_aueq_moz` as keyof CompanyMineralEstimates,
+        ounces: 1e6,
+      },
+    }))
+  ),
+  {
+    key: `${prefix}_per_production_oz` as ValuationRatioKey,
+    numerator: field,
+    denominator: { relation: 'production' as const, field: 'current_production_total_aueq_koz', ounces: 1e3 },
+  },
+]);
+
+// One ratio from the company's current figures; null when an input is missing
+// or the ounce count isn't positive
+export function computeRatio(company: CompanyData, ratio: ValuationRatio): number | null {
+  const numerator = company.financials?.[ratio.numerator] ?? null;
+  const record = company[ratio.denominator.relation] as Record<string, unknown> | null;
+  const amount = record?.[ratio.denominator.field];
+  if (numerator === null || typeof amount !== 'number' || amount <= 0) return null;
+  return numerator / (amount * ratio.denominator.ounces);
+}
+
+export function ratiosDisagree(stored: number | null, derived: number | null): boolean {
+  if (stored === null || derived === null) return stored !== derived;
+  if (stored === derived) return false;
+  return Math.abs(derived - stored) > RATIO_TOLERANCE * Math.max(Math.abs(stored), Math.abs(derived));
+}
+
+// Return a copy with valuation_metrics recomputed. Call it after normalizeCompanyCurrency,
+// so numerator and stored ratios are both in the reporting currency; mixed-currency
+// input gives meaningless comparisons. A company without a valuation_metrics row
+// gets one with valuation_id 0 if anything can be derived.
+export function applyDerivedValuations(company: CompanyData): CompanyData {
+  const stored = company.valuation_metrics;
+  const derived = { ...(stored ?? emptyValuationMetrics(company.company_id)) };
+  const checks: NonNullable<CompanyData['valuation_checks']> = {};
+  const conversions = { ...company.currency_conversions };
+  let anyDerived = false;
+
+  for (const ratio of VALUATION_RATIOS) {
+    const path = `valuation_metrics.${ratio.key}`;
+    const value = computeRatio(company, ratio);
+    const storedValue = stored?.[ratio.key] ?? null;
+    derived[ratio.key] = value;
+    if (value !== null) anyDerived = true;
+    if (ratiosDisagree(storedValue, value)) checks[path] = { stored: storedValue, derived: value };
+
+    // The ratio now inherits the numerator's conversion, not the stored value's
+    const numeratorConversion = company.currency_conversions?.[`financials.${ratio.numerator}`];
+    if (numeratorConversion) conversions[path] = numeratorConversion;
+    else delete conversions[path];
+  }
+
+  return {
+    ...company,
+    valuation_metrics: stored || anyDerived ? derived : null,
+    currency_conversions: company.currency_conversions ? conversions : undefined,
+    valuation_checks: Object.keys(checks).length > 0 ? checks : undefined,
+  };
+}
+
+function emptyValuationMetrics(companyId: number): ValuationMetrics {
+  const record = { valuation_id: 0, company_id: companyId, last_updated: null } as ValuationMetrics;
+  for (const ratio of VALUATION_RATIOS) record[ratio.key] = null;
+  return record;
+}
@@ -0,0 +1,175 @@
+// src/lib/export.ts
+// Export companies table rows to CSV, Excel or JSON. The caller passes the rows (selected,
+// or filtered and sorted) and the visible columns; values are taken as displayed, i.e.
+// already in the reporting currency. Every format records that currency and how current
+// the data is: the as-of date picked on the page, else the latest record update.
+import type { CompanyData, MetricConfig, MetricFormat } from '@/types';
+import { describeConversion } from '@/lib/currency';
+import { latestUpdate } from '@/lib/company-data';
+import { getMetricValue } from '@/lib/metrics';
+import { toCsv } from '@/lib/csv';
+import { buildXlsx, XLSX_MIME_TYPE, XlsxNumberFormat } from '@/lib/xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  { format: 'xlsx', label: 'Excel', extension: 'xlsx', mimeType: XLSX_MIME_TYPE },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+];
+
+export type ExportColumn = {
+  id: string; // Table column id ('financials.market_cap_value')
+  label: string;
+  unit: string | null; // With the currency filled in: 'CAD', 'CAD/oz', 'Moz'
+  format: MetricFormat | null; // null for text columns
+  value: (company: CompanyData) => string | number | null;
+};
+
+export type ExportRequest = {
+  companies: CompanyData[];
+  columns: ExportColumn[];
+  currency: string;
+  asOf: string | null; // As-of date picked on the page; null = latest records
+  selection: 'selected' | 'filtered';
+  screen?: string; // Screen expression in effect, recorded in the export info
+  exportedAt?: Date;
+};
+
+// '$' -> 'CAD', '$/oz' -> 'CAD/oz'; other units unchanged
+export function metricUnit(metric: MetricConfig, currency: string): string {
+  return metric.unit.replace('$', currency);
+}
+
+export function metricExportColumn(metric: MetricConfig, currency: string): ExportColumn {
+  return {
+    id: metric.path,
+    label: metric.label,
+    unit: metricUnit(metric, currency) || null,
+    format: metric.format,
+    value: (company) => getMetricValue(company, metric),
+  };
+}
+
+export function exportHeader(column: ExportColumn): string {
+  return column.unit ? `${column.label} (${column.unit})` : column.label;
+}
+
+// Big amounts as whole numbers, ratios and ounces with decimals
+const XLSX_FORMATS: Record<MetricFormat, XlsxNumberFormat> = {
+  currency: 'integer',
+  currency_per_oz: 'decimal',
+  ratio: 'decimal',
+  percent: 'decimal',
+  moz: 'decimal',
+  koz: 'integer',
+  shares: 'integer',
+  years: 'decimal',
+  number: 'decimal',
+};
+
+// Newest record update among the exported companies
+function dataAsOf(request: ExportRequest): string | null {
+  if (request.asOf) return request.asOf;
+  const times = request.companies.map(latestUpdate).filter((time): time is string => time !== null);
+  return times.length > 0 ? times.reduce((a, b) => (a > b ? a : b)) : null;
+}
+
+// Per-row context columns appended to CSV and Excel rows
+const CONTEXT_HEADERS = ['Currency', 'Data as of'];
+
+function contextCells(company: CompanyData, request: ExportRequest): (string | null)[] {
+  return [request.currency, request.asOf ?? latestUpdate(company)];
+}
+
+export function buildCsv(request: ExportRequest): string {
+  return toCsv([
+    [...request.columns.map(exportHeader), ...CONTEXT_HEADERS],
+    ...request.companies.map((company) => [
+      ...request.columns.map((column) => column.value(company)),
+      ...contextCells(company, request),
+    ]),
+  ]);
+}
+
+// Rows keyed by column id, plus the conversions behind the exported monetary values
+export function buildJson(request: ExportRequest): string {
+  const exportedAt = request.exportedAt ?? new Date();
+  return JSON.stringify(
+    {
+      export: {
+        currency: request.currency,
+        as_of: request.asOf,
+        data_as_of: dataAsOf(request),
+        exported_at: exportedAt.toISOString(),
+        rows: request.selection,
+        screen: request.screen || null,
+      },
+      columns: request.columns.map(({ id, label, unit }) => ({ id, label, unit })),
+      rows: request.companies.map((company) => {
+        const row: Record<string, unknown> = { company_id: company.company_id };
+        for (const column of request.columns) row[column.id] = column.value(company);
+        const conversions = Object.fromEntries(
+          request.columns
+            .filter((column) => company.currency_conversions?.[column.id])
+            .map((column) => [column.id, company.currency_conversions![column.id]])
+        );
+        if (Object.keys(conversions).length > 0) row.currency_conversions = conversions;
+        row.data_as_of = latestUpdate(company);
+        return row;
+      }),
+    },
+    null,
+    2
+  );
+}
+
+// Companies sheet with typed cells, an Export info sheet, and a Conversions sheet
+// listing every exported value that was converted to the reporting currency
+export function buildExportXlsx(request: ExportRequest): Uint8Array {
+  const exportedAt = request.exportedAt ?? new Date();
+  const conversions = request.companies.flatMap((company) =>
+    request.columns
+      .filter((column) => company.currency_conversions?.[column.id])
+      .map((column) => [company.company_name, exportHeader(column), describeConversion(company.currency_conversions![column.id])])
+  );
+
+  return buildXlsx([
+    {
+      name: 'Companies',
+      columns: [
+        ...request.columns.map((column) => ({
+          header: exportHeader(column),
+          format: column.format ? XLSX_FORMATS[column.format] : undefined,
+          width: column.format ? undefined : Math.max(12, Math.min(40, column.label.length + 10)),
+        })),
+        ...CONTEXT_HEADERS.map((header) => ({ header, width: header === 'Currency' ? 10 : 26 })),
+      ],
+      rows: request.companies.map((company) => [
+        ...request.columns.map((column) => column.value(company)),
+        ...contextCells(company, request),
+      ]),
+    },
+    {
+      name: 'Export info',
+      columns: [{ header: 'Setting', width: 20 }, { header: 'Value', width: 60 }],
+      rows: [
+        ['Currency', request.currency],
+        ['Data as of', request.asOf ? request.asOf : `Latest records (newest update ${dataAsOf(request) ?? 'unknown'})`],
+        ['Exported at', exportedAt.toISOString()],
+        ['Rows', `${request.companies.length} ${request.selection === 'selected' ? 'selected' : 'filtered'} companies`],
+        ['Screen', request.screen || null],
+      ],
+    },
+    {
+      name: 'Conversions',
+      columns: [{ header: 'Company', width: 36 }, { header: 'Column', width: 36 }, { header: 'Conversion', width: 60 }],
+      rows: conversions,
+    },
+  ]);
+}
+
+export function exportFileName(format: ExportFormat, currency: string, date = new Date()): string {
+  const extension = EXPORT_FORMATS.find((option) => option.format === format)!.extension;
+  return `companies-${currency}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
@@ -0,0 +1,586 @@
+// src/lib/expression.ts
+// A small expression language over named fields, used for company screens:
+//
+//   status = "producer" AND costs.aisc_last_year < 1400
+//   exchange IN ("TSX", "TSXV") AND NOT valuation_metrics.ev_per_resource_oz_all IS NULL
+//   (financials.cash_value - financials.debt_value) / financials.market_cap_value > 0.2
+//
+// Supports comparison (= != <> < <= > >=), AND / OR / NOT, [NOT] IN (...), IS [NOT] NULL,
+// [NOT] LIKE with % and _ wildcards, arithmetic (+ - * / %) and ABS / MIN / MAX / COALESCE.
+// Keywords are case-insensitive; strings compare case-insensitively.
+//
+// Expressions are type-checked against a scope when parsed, and every error carries the
+// character range it refers to. Missing values follow SQL: a comparison or sum involving
+// a missing value is itself missing, and a screen only keeps rows where it is true.
+
+export type ValueType = 'number' | 'string' | 'boolean' | 'null';
+export type ExpressionValue = number | string | boolean | null;
+
+// The fields an expression may reference, and how to describe them in autocomplete
+export type ExpressionScope = {
+  fields: ReadonlyMap<string, ValueType>;
+  describeField?: (name: string) => string | undefined;
+  fieldValues?: (name: string) => string[]; // Known values of a string field, for completions
+};
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+// --- Tokens ---
+
+type TokenType = 'number' | 'string' | 'identifier' | 'keyword' | 'operator' | 'eof';
+
+type Token = { type: TokenType; value: string; start: number; end: number };
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'TRUE', 'FALSE'];
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '=', '<', '>', '+', '-', '*', '/', '%', '(', ')', ','];
+
+const IDENTIFIER = /[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z_][A-Za-z0-9_]*)*/y;
+const NUMBER = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) j++; // \" and \\
+        value += source[j++];
+      }
+      if (j >= source.length) throw new ExpressionError('Unterminated string', i, source.length);
+      tokens.push({ type: 'string', value, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    NUMBER.lastIndex = i;
+    const number = NUMBER.exec(source);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    IDENTIFIER.lastIndex = i;
+    const identifier = IDENTIFIER.exec(source);
+    if (identifier) {
+      const upper = identifier[0].toUpperCase();
+      const isKeyword = KEYWORDS.includes(upper);
+      tokens.push({
+        type: isKeyword ? 'keyword' : 'identifier',
+        value: isKeyword ? upper : identifier[0],
+        start: i,
+        end: i + identifier[0].length,
+      });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Unexpected character "${char}"`, i, i + 1);
+    tokens.push({ type: 'operator', value: operator, start: i, end: i + operator.length });
+    i += operator.length;
+  }
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// --- Syntax tree ---
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%';
+
+type Span = { start: number; end: number; valueType: ValueType };
+
+export type ExpressionNode = Span &
+  (
+    | { kind: 'literal'; value: ExpressionValue }
+    | { kind: 'field'; name: string }
+    | { kind: 'negate'; operand: ExpressionNode }
+    | { kind: 'not'; operand: ExpressionNode }
+    | { kind: 'logical'; op: 'AND' | 'OR'; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'compare'; op: ComparisonOperator; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'arithmetic'; op: ArithmeticOperator; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'in'; operand: ExpressionNode; values: ExpressionNode[]; negated: boolean }
+    | { kind: 'like'; operand: ExpressionNode; pattern: ExpressionNode; negated: boolean }
+    | { kind: 'isNull'; operand: ExpressionNode; negated: boolean }
+    | { kind: 'call'; name: string; args: ExpressionNode[] }
+  );
+
+type FunctionSpec = { minArgs: number; maxArgs: number; description: string };
+
+export const EXPRESSION_FUNCTIONS: Record<string, FunctionSpec> = {
+  ABS: { minArgs: 1, maxArgs: 1, description: 'Absolute value' },
+  MIN: { minArgs: 2, maxArgs: Infinity, description: 'Smallest of the arguments (missing if any is missing)' },
+  MAX: { minArgs: 2, maxArgs: Infinity, description: 'Largest of the arguments (missing if any is missing)' },
+  COALESCE: { minArgs: 2, maxArgs: Infinity, description: 'First argument that is not missing' },
+};
+
+const describeType = (type: ValueType) => (type === 'null' ? 'NULL' : `a ${type}`);
+
+// Types are compatible when equal or when either side is a literal NULL
+const compatible = (a: ValueType, b: ValueType) => a === b || a === 'null' || b === 'null';
+
+function expectType(node: ExpressionNode, types: ValueType[], context: string) {
+  if (node.valueType === 'null' || types.includes(node.valueType)) return;
+  throw new ExpressionError(
+    `${context} needs ${types.map(describeType).join(' or ')}, got ${describeType(node.valueType)}`,
+    node.start,
+    node.end
+  );
+}
+
+// --- Parser (recursive descent; precedence low to high: OR, AND, NOT, predicates, + -, * / %, unary -) ---
+
+function createParser(source: string, scope: ExpressionScope) {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const isKeyword = (value: string, token = peek()) => token.type === 'keyword' && token.value === value;
+  const isOperator = (value: string, token = peek()) => token.type === 'operator' && token.value === value;
+
+  const describeToken = (token: Token) => (token.type === 'eof' ? 'end of expression' : `"${source.slice(token.start, token.end)}"`);
+
+  function fail(message: string, token = peek()): never {
+    throw new ExpressionError(message, token.start, Math.max(token.end, token.start + 1));
+  }
+
+  function expectOperator(value: string, context: string) {
+    if (!isOperator(value)) fail(`Expected "${value}" ${context}, found ${describeToken(peek())}`);
+    return next();
+  }
+
+  function parseOr(): ExpressionNode {
+    let left = parseAnd();
+    while (isKeyword('OR')) {
+      next();
+      const right = parseAnd();
+      expectType(left, ['boolean'], 'OR');
+      expectType(right, ['boolean'], 'OR');
+      left = { kind: 'logical', op: 'OR', left, right, start: left.start, end: right.end, valueType: 'boolean' };
+    }
+    return left;
+  }
+
+  function parseAnd(): ExpressionNode {
+    let left = parseNot();
+    while (isKeyword('AND')) {
+      next();
+      const right = parseNot();
+      expectType(left, ['boolean'], 'AND');
+      expectType(right, ['boolean'], 'AND');
+      left = { kind: 'logical', op: 'AND', left, right, start: left.start, end: right.end, valueType: 'boolean' };
+    }
+    return left;
+  }
+
+  function parseNot(): ExpressionNode {
+    if (!isKeyword('NOT')) return parsePredicate();
+    const token = next();
+    const operand = parseNot();
+    expectType(operand, ['boolean'], 'NOT');
+    return { kind: 'not', operand, start: token.start, end: operand.end, valueType: 'boolean' };
+  }
+
+  function parsePredicate(): ExpressionNode {
+    const left = parseAdditive();
+    const token = peek();
+
+    if (isKeyword('IS')) {
+      next();
+      const negated = isKeyword('NOT');
+      if (negated) next();
+      if (!isKeyword('NULL')) fail(`Expected NULL after IS${negated ? ' NOT' : ''}`);
+      const end = next().end;
+      return { kind: 'isNull', operand: left, negated, start: left.start, end, valueType: 'boolean' };
+    }
+
+    // NOT here belongs to "NOT IN" / "NOT LIKE"
+    const negated = isKeyword('NOT') && (isKeyword('IN', tokens[position + 1]) || isKeyword('LIKE', tokens[position + 1]));
+    if (negated) next();
+
+    if (isKeyword('IN')) {
+      next();
+      expectOperator('(', 'after IN');
+      const values: ExpressionNode[] = [parseAdditive()];
+      while (isOperator(',')) {
+        next();
+        values.push(parseAdditive());
+      }
+      const end = expectOperator(')', 'to close the IN list').end;
+      for (const value of values) {
+        if (!compatible(left.valueType, value.valueType)) {
+          throw new ExpressionError(
+            `IN list value is ${describeType(value.valueType)} but ${source.slice(left.start, left.end)} is ${describeType(left.valueType)}`,
+            value.start,
+            value.end
+          );
+        }
+      }
+      return { kind: 'in', operand: left, values, negated, start: left.start, end, valueType: 'boolean' };
+    }
+
+    if (isKeyword('LIKE')) {
+      next();
+      const pattern = parseAdditive();
+      expectType(left, ['string'], 'LIKE');
+      expectType(pattern, ['string'], 'LIKE pattern');
+      return { kind: 'like', operand: left, pattern, negated, start: left.start, end: pattern.end, valueType: 'boolean' };
+    }
+
+    if (token.type === 'operator' && ['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(token.value)) {
+      next();
+      const right = parseAdditive();
+      const op = (token.value === '==' ? '=' : token.value === '<>' ? '!=' : token.value) as ComparisonOperator;
+      if (left.valueType === 'null' || right.valueType === 'null') {
+        throw new ExpressionError('Comparing with NULL is never true; use IS NULL or IS NOT NULL', left.start, right.end);
+      }
+      if (left.valueType !== right.valueType) {
+        throw new ExpressionError(
+          `Cannot compare ${describeType(left.valueType)} with ${describeType(right.valueType)}`,
+          left.start,
+          right.end
+        );
+      }
+      if (left.valueType === 'boolean' && op !== '=' && op !== '!=') fail(`"${token.value}" needs numbers or strings`, token);
+      return { kind: 'compare', op, left, right, start: left.start, end: right.end, valueType: 'boolean' };
+    }
+
+    return left;
+  }
+
+  function parseAdditive(): ExpressionNode {
+    let left = parseMultiplicative();
+    while (isOperator('+') || isOperator('-')) {
+      const op = next().value as ArithmeticOperator;
+      const right = parseMultiplicative();
+      expectType(left, ['number'], `"${op}"`);
+      expectType(right, ['number'], `"${op}"`);
+      left = { kind: 'arithmetic', op, left, right, start: left.start, end: right.end, valueType: 'number' };
+    }
+    return left;
+  }
+
+  function parseMultiplicative(): ExpressionNode {
+    let left = parseUnary();
+    while (isOperator('*') || isOperator('/') || isOperator('%')) {
+      const op = next().value as ArithmeticOperator;
+      const right = parseUnary();
+      expectType(left, ['number'], `"${op}"`);
+      expectType(right, ['number'], `"${op}"`);
+      left = { kind: 'arithmetic', op, left, right, start: left.start, end: right.end, valueType: 'number' };
+    }
+    return left;
+  }
+
+  function parseUnary(): ExpressionNode {
+    if (!isOperator('-')) return parsePrimary();
+    const token = next();
+    const operand = parseUnary();
+    expectType(operand, ['number'], 'Unary "-"');
+    return { kind: 'negate', operand, start: token.start, end: operand.end, valueType: 'number' };
+  }
+
+  function parsePrimary(): ExpressionNode {
+    const token = next();
+    const span = { start: token.start, end: token.end };
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), ...span, valueType: 'number' };
+      case 'string':
+        return { kind: 'literal', value: token.value, ...span, valueType: 'string' };
+      case 'keyword':
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          return { kind: 'literal', value: token.value === 'TRUE', ...span, valueType: 'boolean' };
+        }
+        if (token.value === 'NULL') return { kind: 'literal', value: null, ...span, valueType: 'null' };
+        break;
+      case 'identifier':
+        return isOperator('(') ? parseCall(token) : parseField(token);
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parseOr();
+          const end = expectOperator(')', 'to close "("').end;
+          return { ...inner, start: token.start, end };
+        }
+        break;
+    }
+    fail(`Expected a field, number or string, found ${describeToken(token)}`, token);
+  }
+
+  function parseField(token: Token): ExpressionNode {
+    const valueType = scope.fields.get(token.value);
+    if (!valueType) {
+      // Suggest the full path when the name matches the end of exactly one field
+      const matches = [...scope.fields.keys()].filter((field) => field.endsWith(`.${token.value}`));
+      const hint = matches.length === 1 ? ` (did you mean ${matches[0]}?)` : '';
+      fail(`Unknown field "${token.value}"${hint}`, token);
+    }
+    return { kind: 'field', name: token.value, start: token.start, end: token.end, valueType };
+  }
+
+  function parseCall(token: Token): ExpressionNode {
+    const name = token.value.toUpperCase();
+    const spec = EXPRESSION_FUNCTIONS[name];
+    if (!spec) fail(`Unknown function "${token.value}"; available: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`, token);
+    next(); // (
+    const args: ExpressionNode[] = [];
+    if (!isOperator(')')) {
+      args.push(parseOr());
+      while (isOperator(',')) {
+        next();
+        args.push(parseOr());
+      }
+    }
+    const end = expectOperator(')', `to close ${name}(`).end;
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      const expected = spec.maxArgs === spec.minArgs ? `${spec.minArgs}` : `at least ${spec.minArgs}`;
+      throw new ExpressionError(`${name} takes ${expected} argument(s), got ${args.length}`, token.start, end);
+    }
+
+    let valueType: ValueType = 'number';
+    if (name === 'COALESCE') {
+      // All arguments share one type; NULL literals don't decide it
+      valueType = args.find((arg) => arg.valueType !== 'null')?.valueType ?? 'null';
+      for (const arg of args) {
+        if (!compatible(valueType, arg.valueType)) {
+          throw new ExpressionError(`COALESCE arguments must share a type, got ${describeType(arg.valueType)}`, arg.start, arg.end);
+        }
+      }
+    } else {
+      args.forEach((arg) => expectType(arg, ['number'], name));
+    }
+    return { kind: 'call', name, args, start: token.start, end, valueType };
+  }
+
+  return {
+    parse(): ExpressionNode {
+      if (peek().type === 'eof') fail('Expression is empty');
+      const node = parseOr();
+      if (peek().type !== 'eof') {
+        const token = peek();
+        fail(
+          token.type === 'identifier' || token.type === 'string' || token.type === 'number'
+            ? `Unexpected ${describeToken(token)}; combine conditions with AND or OR`
+            : `Unexpected ${describeToken(token)}`,
+          token
+        );
+      }
+      return node;
+    },
+  };
+}
+
+// Parse and type-check; throws ExpressionError
+export function parseExpression(source: string, scope: ExpressionScope): ExpressionNode {
+  return createParser(source, scope).parse();
+}
+
+// --- Evaluation ---
+
+// Fields read through this; non-finite numbers and empty strings count as missing
+export type FieldLookup = (name: string) => unknown;
+
+function normalizeValue(value: unknown): ExpressionValue {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') return value === '' ? null : value;
+  if (typeof value === 'boolean') return value;
+  return null;
+}
+
+function compareValues(a: number | string | boolean, b: number | string | boolean): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+}
+
+// SQL LIKE: % any run of characters, _ one character, case-insensitive
+function likeToRegExp(pattern: string): RegExp {
+  const body = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${body}$`, 'is');
+}
+
+export function evaluateExpression(node: ExpressionNode, lookup: FieldLookup): ExpressionValue {
+  const evaluate = (child: ExpressionNode) => evaluateExpression(child, lookup);
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return normalizeValue(lookup(node.name));
+    case 'negate': {
+      const value = evaluate(node.operand);
+      return value === null ? null : -(value as number);
+    }
+    case 'not': {
+      const value = evaluate(node.operand);
+      return value === null ? null : !value;
+    }
+    case 'logical': {
+      // Three-valued: false AND missing = false, true OR missing = true
+      const left = evaluate(node.left);
+      if (node.op === 'AND' && left === false) return false;
+      if (node.op === 'OR' && left === true) return true;
+      const right = evaluate(node.right);
+      if (node.op === 'AND') return right === false ? false : left === null || right === null ? null : true;
+      return right === true ? true : left === null || right === null ? null : false;
+    }
+    case 'compare': {
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      if (left === null || right === null) return null;
+      const result = compareValues(left, right);
+      switch (node.op) {
+        case '=': return result === 0;
+        case '!=': return result !== 0;
+        case '<': return result < 0;
+        case '<=': return result <= 0;
+        case '>': return result > 0;
+        case '>=': return result >= 0;
+      }
+      break;
+    }
+    case 'arithmetic': {
+      const left = evaluate(node.left) as number | null;
+      const right = evaluate(node.right) as number | null;
+      if (left === null || right === null) return null;
+      const result =
+        node.op === '+' ? left + right
+        : node.op === '-' ? left - right
+        : node.op === '*' ? left * right
+        : node.op === '/' ? left / right
+        : left % right;
+      return Number.isFinite(result) ? result : null; // Division by zero is missing, not Infinity
+    }
+    case 'in': {
+      const value = evaluate(node.operand);
+      if (value === null) return null;
+      const found = node.values.some((child) => {
+        const candidate = evaluate(child);
+        return candidate !== null && compareValues(value, candidate) === 0;
+      });
+      return node.negated ? !found : found;
+    }
+    case 'like': {
+      const value = evaluate(node.operand);
+      const pattern = evaluate(node.pattern);
+      if (value === null || pattern === null) return null;
+      const matched = likeToRegExp(String(pattern)).test(String(value));
+      return node.negated ? !matched : matched;
+    }
+    case 'isNull': {
+      const missing = evaluate(node.operand) === null;
+      return node.negated ? !missing : missing;
+    }
+    case 'call': {
+      const args = node.args.map(evaluate);
+      if (node.name === 'COALESCE') return args.find((arg) => arg !== null) ?? null;
+      if (args.some((arg) => arg === null)) return null;
+      const numbers = args as number[];
+      if (node.name === 'ABS') return Math.abs(numbers[0]);
+      return node.name === 'MIN' ? Math.min(...numbers) : Math.max(...numbers);
+    }
+  }
+  return null;
+}
+
+// --- Autocomplete ---
+
+export type CompletionItem = {
+  label: string;
+  insert: string; // Text that replaces [from, to)
+  kind: 'field' | 'keyword' | 'function' | 'value';
+  detail?: string;
+};
+
+export type Completions = { from: number; to: number; items: CompletionItem[] };
+
+const MAX_COMPLETIONS = 50;
+
+// Keywords that can follow a complete operand, and ones that can start one
+const AFTER_OPERAND = ['AND', 'OR', 'IN', 'NOT IN', 'LIKE', 'NOT LIKE', 'IS NULL', 'IS NOT NULL'];
+const BEFORE_OPERAND = ['NOT', 'NULL', 'TRUE', 'FALSE'];
+
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// Field used by the comparison being typed: `field =`, `field !=`, `field IN (a, `
+function comparedField(tokens: Token[]): string | null {
+  let i = tokens.length - 1;
+  if (tokens[i]?.type === 'operator' && ['=', '==', '!=', '<>'].includes(tokens[i].value)) {
+    return tokens[i - 1]?.type === 'identifier' ? tokens[i - 1].value : null;
+  }
+  // Walk back over an IN list
+  while (i >= 0 && (tokens[i].type === 'string' || (tokens[i].type === 'operator' && tokens[i].value === ','))) i--;
+  if (tokens[i]?.value !== '(' || tokens[i - 1]?.value !== 'IN') return null;
+  const field = tokens[i - 2]?.value === 'NOT' ? tokens[i - 3] : tokens[i - 2];
+  return field?.type === 'identifier' ? field.value : null;
+}
+
+// Suggestions for the word (or open string) ending at the cursor
+export function getCompletions(source: string, cursor: number, scope: ExpressionScope): Completions {
+  const before = source.slice(0, cursor);
+  const openString = /(["'])((?:\\.|(?!\1)[^\\])*)$/.exec(before);
+  const inString = openString !== null && (before.slice(0, openString.index).match(/["']/g)?.length ?? 0) % 2 === 0;
+  const word = inString ? openString![2] : (/[A-Za-z0-9_.]*$/.exec(before)?.[0] ?? '');
+  const from = inString ? openString!.index : cursor - word.length;
+  // Replace the rest of the word under the cursor too
+  const to = inString ? cursor : cursor + (/^[A-Za-z0-9_.]*/.exec(source.slice(cursor))?.[0].length ?? 0);
+
+  let previous: Token[] = [];
+  try {
+    previous = tokenize(source.slice(0, from)).slice(0, -1); // Drop eof
+  } catch {
+    // Earlier text doesn't tokenize; fall back to context-free suggestions
+  }
+  const last = previous[previous.length - 1];
+  const afterOperand =
+    last !== undefined &&
+    (last.type === 'identifier' || last.type === 'number' || last.type === 'string' ||
+      (last.type === 'operator' && last.value === ')') || (last.type === 'keyword' && ['NULL', 'TRUE', 'FALSE'].includes(last.value)));
+
+  const prefix = word.toLowerCase();
+  const matches = (label: string) => {
+    const lower = label.toLowerCase();
+    return lower.startsWith(prefix) || lower.includes(`.${prefix}`) || (prefix.length >= 3 && lower.includes(prefix));
+  };
+  const items: CompletionItem[] = [];
+
+  const field = comparedField(previous);
+  if (field && scope.fields.get(field) === 'string' && scope.fieldValues) {
+    for (const value of scope.fieldValues(field)) {
+      if (value.toLowerCase().startsWith(prefix)) items.push({ label: value, insert: quote(value), kind: 'value', detail: field });
+    }
+  }
+  if (inString) return { from, to, items: items.slice(0, MAX_COMPLETIONS) };
+
+  if (afterOperand) {
+    for (const keyword of AFTER_OPERAND) if (matches(keyword)) items.push({ label: keyword, insert: keyword, kind: 'keyword' });
+  } else {
+    for (const [name, type] of scope.fields) {
+      if (matches(name)) items.push({ label: name, insert: name, kind: 'field', detail: scope.describeField?.(name) ?? type });
+    }
+    for (const [name, spec] of Object.entries(EXPRESSION_FUNCTIONS)) {
+      if (matches(name)) items.push({ label: `${name}(…)`, insert: `${name}(`, kind: 'function', detail: spec.description });
+    }
+    for (const keyword of BEFORE_OPERAND) if (matches(keyword)) items.push({ label: keyword, insert: keyword, kind: 'keyword' });
+  }
+
+  // Prefix matches before substring matches, otherwise keep the scope order
+  const rank = (item: CompletionItem) => (item.label.toLowerCase().startsWith(prefix) ? 0 : 1);
+  items.sort((a, b) => rank(a) - rank(b));
+  return { from, to, items: items.slice(0, MAX_COMPLETIONS) };
+}
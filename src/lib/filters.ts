@@ -0,0 +1,119 @@
+// src/lib/filters.ts
+// Column filters for the companies table: numeric ranges, categorical facets and
+// an exclude-missing toggle, plus a screen expression (src/lib/expression.ts) used as
+// the table's global filter. Charts and exports read the table's filtered rows, so they
+// always match what the filters and screen select.
+import type { FilterFn } from '@tanstack/react-table';
+import type { ColumnFilterValue, CompanyData, FacetFilterValue, MetricConfig, RangeFilterValue } from '@/types';
+import { COMPANY_FIELDS, getFieldValue } from '@/lib/company-query';
+import { evaluateExpression, ExpressionError, ExpressionScope, parseExpression, ValueType } from '@/lib/expression';
+import { describeMetric, getMetricByPath } from '@/lib/metrics';
+
+// Yahoo-style ticker suffix -> exchange
+const EXCHANGES: Record<string, string> = {
+  TO: 'TSX',
+  V: 'TSXV',
+  CN: 'CSE',
+  H: 'NEX',
+};
+
+// 'ABC.V' -> 'TSXV'; unknown suffixes are shown as-is, no suffix is missing
+export function getExchange(tsxCode: string | null | undefined): string | null {
+  const dot = tsxCode?.lastIndexOf('.') ?? -1;
+  if (!tsxCode || dot < 0) return null;
+  const suffix = tsxCode.slice(dot + 1).toUpperCase();
+  return EXCHANGES[suffix] ?? suffix;
+}
+
+export function emptyRangeFilter(): RangeFilterValue {
+  return { kind: 'range', min: null, max: null, excludeMissing: false };
+}
+
+export function emptyFacetFilter(): FacetFilterValue {
+  return { kind: 'facet', values: [], excludeMissing: false };
+}
+
+export function isFilterActive(filter: ColumnFilterValue | undefined): boolean {
+  if (!filter) return false;
+  if (filter.kind === 'range') return filter.min !== null || filter.max !== null || filter.excludeMissing;
+  return filter.values.length > 0 || filter.excludeMissing;
+}
+
+// Missing values pass unless excludeMissing is set
+export function matchesRange(value: unknown, filter: RangeFilterValue): boolean {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return !filter.excludeMissing;
+  return (filter.min === null || value >= filter.min) && (filter.max === null || value <= filter.max);
+}
+
+export function matchesFacet(value: unknown, filter: FacetFilterValue): boolean {
+  const missing = value === null || value === undefined || value === '';
+  if (filter.values.length > 0) return !missing && filter.values.includes(String(value));
+  return !(missing && filter.excludeMissing);
+}
+
+// TanStack filter functions; autoRemove drops a filter from state once it's cleared
+export const rangeFilterFn: FilterFn<CompanyData> = (row, columnId, filter: RangeFilterValue) =>
+  matchesRange(row.getValue(columnId), filter);
+rangeFilterFn.autoRemove = (filter: ColumnFilterValue | undefined) => !isFilterActive(filter);
+
+export const facetFilterFn: FilterFn<CompanyData> = (row, columnId, filter: FacetFilterValue) =>
+  matchesFacet(row.getValue(columnId), filter);
+facetFilterFn.autoRemove = (filter: ColumnFilterValue | undefined) => !isFilterActive(filter);
+
+// Value of a table column for a company (column ids are CompanyData paths,
+// except derived columns like exchange)
+export function getColumnValue(company: CompanyData, columnId: string): unknown {
+  if (columnId === 'exchange') return getExchange(company.tsx_code);
+  return getFieldValue(company, columnId);
+}
+
+// Fields a screen can reference: the CompanyData columns (as in the API, minus JSON and
+// the related tables' keys), exchange, and any calculated columns passed in
+export function buildScreenScope(calculated: MetricConfig[] = []): ExpressionScope {
+  const byPath = new Map(calculated.map((metric) => [metric.path, metric]));
+  return {
+    fields: new Map<string, ValueType>([
+      ...[...COMPANY_FIELDS]
+        .filter(([field, kind]) => kind !== 'json' && !(field.includes('.') && field.endsWith('_id')))
+        .map(([field, kind]) => [field, kind === 'number' || kind === 'integer' ? 'number' : 'string'] as const),
+      ['exchange', 'string'],
+      ...calculated.map((metric) => [metric.path, 'number'] as const),
+    ]),
+    describeField: (name) => {
+      const metric = getMetricByPath(name) ?? byPath.get(name);
+      return metric ? describeMetric(metric) : undefined;
+    },
+  };
+}
+
+export const SCREEN_SCOPE = buildScreenScope();
+
+export type ScreenPredicate = (company: CompanyData) => boolean;
+
+// The table calls the filter once per row, so keep the last compiled screen
+let compiledScreen: { source: string; scope: ExpressionScope; predicate: ScreenPredicate } | null = null;
+
+// Compile a screen expression into a row predicate; throws ExpressionError.
+// Rows where the expression is missing (e.g. compares a missing value) are dropped.
+export function compileScreen(source: string, scope: ExpressionScope = SCREEN_SCOPE): ScreenPredicate {
+  if (compiledScreen?.source === source && compiledScreen.scope === scope) return compiledScreen.predicate;
+  const node = parseExpression(source, scope);
+  if (node.valueType !== 'boolean') {
+    throw new ExpressionError('A screen must be a condition (true or false), e.g. financials.market_cap_value > 100000000', node.start, node.end);
+  }
+  const predicate: ScreenPredicate = (company) => evaluateExpression(node, (name) => getColumnValue(company, name)) === true;
+  compiledScreen = { source, scope, predicate };
+  return predicate;
+}
+
+// Global filter for the table. The toolbar only applies screens that compile, so a
+// failure here (a stale URL, say) keeps every row rather than breaking the table.
+export function createScreenFilterFn(scope: ExpressionScope = SCREEN_SCOPE): FilterFn<CompanyData> {
+  return (row, _columnId, source: string) => {
+    try {
+      return compileScreen(source, scope)(row.original);
+    } catch {
+      return true;
+    }
+  };
+}
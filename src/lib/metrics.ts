@@ -0,0 +1,204 @@
+// src/lib/metrics.ts
+// Metric catalog: the single list of numeric company metrics with their labels,
+// units, formats and better/worse direction. Table columns, chart axis options,
+// tooltips and scoring are all generated from it, so a metric is added here once.
+// Directions and descriptions follow Notes_Preferred_HigherLower.txt.
+// (share_price from the notes lives in stock_prices, not CompanyData, so it isn't here;
+// the Price Performance figures computed from that history are, see price-performance.ts.)
+import type { CompanyData, MetricConfig, MetricFormat, MetricGroup } from '@/types';
+import { getFieldValue } from '@/lib/company-query';
+import { formatCurrency, formatNumber } from '@/lib/utils';
+
+type MetricInput = Omit<MetricConfig, 'path' | 'group' | 'key'>;
+
+// Build the path from the group: company fields sit at the top level
+function defineMetrics(group: MetricGroup, metrics: Record<string, MetricInput>): MetricConfig[] {
+  return Object.entries(metrics).map(([key, metric]) => ({
+    key,
+    path: group === 'company' ? key : `${group}.${key}`,
+    group,
+    ...metric,
+  }));
+}
+
+const money = { unit: '$', format: 'currency' } as const;
+const perOunce = { unit: '$/oz', format: 'currency_per_oz' } as const;
+const ratio = { unit: 'x', format: 'ratio' } as const;
+const moz = { unit: 'Moz', format: 'moz' } as const;
+const koz = { unit: 'koz', format: 'koz' } as const;
+const shares = { unit: 'shares', format: 'shares' } as const;
+const percent = { unit: '%', format: 'percent' } as const;
+
+export const METRIC_GROUPS: { group: MetricGroup; label: string }[] = [
+  { group: 'company', label: 'Company' },
+  { group: 'financials', label: 'Financials' },
+  { group: 'capital_structure', label: 'Capital Structure' },
+  { group: 'mineral_estimates', label: 'Mineral Estimates' },
+  { group: 'production', label: 'Production' },
+  { group: 'costs', label: 'Costs' },
+  { group: 'valuation_metrics', label: 'Valuation' },
+  { group: 'price_performance', label: 'Price Performance' },
+  { group: 'calculated', label: 'Calculated' }, // User formulas, not in METRICS
+];
+
+export const METRICS: MetricConfig[] = [
+  ...defineMetrics('company', {
+    percent_gold: { label: 'Gold %', unit: '%', format: 'percent', higherIsBetter: true, description: 'Share of production/resources that is gold.' },
+    percent_silver: { label: 'Silver %', unit: '%', format: 'percent', higherIsBetter: true, description: 'Share of production/resources that is silver.' },
+  }),
+
+  ...defineMetrics('financials', {
+    market_cap_value: { label: 'Market Cap', ...money, higherIsBetter: true, description: 'Market capitalization; company scale.' },
+    enterprise_value_value: { label: 'Enterprise Value', ...money, higherIsBetter: true, description: 'Market cap + debt - cash; total valuation.' },
+    cash_value: { label: 'Cash', ...money, higherIsBetter: true, description: 'Cash reserves; financial flexibility.' },
+    net_financial_assets: { label: 'Net Financial Assets', ...money, higherIsBetter: true, description: 'Financial assets minus liabilities; net worth.' },
+    free_cash_flow: { label: 'Free Cash Flow', ...money, higherIsBetter: true, description: 'Cash left after operating expenses and capex; profitability.' },
+    revenue_value: { label: 'Revenue', ...money, higherIsBetter: true, description: 'Annual revenue; income strength.' },
+    ebitda: { label: 'EBITDA', ...money, higherIsBetter: true, description: 'Earnings before interest, taxes, depreciation and amortization; operating profit.' },
+    net_income_value: { label: 'Net Income', ...money, higherIsBetter: true, description: 'Net profit; bottom-line result.' },
+    debt_value: { label: 'Debt', ...money, higherIsBetter: false, description: 'Total debt; lower means less financial risk.' },
+    price_to_book: { label: 'Price / Book', shortLabel: 'P/B', ...ratio, higherIsBetter: false, description: 'Share price vs. book value; lower suggests undervaluation.' },
+    price_to_sales: { label: 'Price / Sales', shortLabel: 'P/S', ...ratio, higherIsBetter: false, description: 'Share price vs. revenue; lower suggests value.' },
+    enterprise_to_revenue: { label: 'EV / Revenue', ...ratio, higherIsBetter: false, description: 'Enterprise value vs. revenue; lower is more efficient.' },
+    enterprise_to_ebitda: { label: 'EV / EBITDA', ...ratio, higherIsBetter: false, description: 'Enterprise value vs. EBITDA; lower is cheaper.' },
+    trailing_pe: { label: 'Trailing P/E', ...ratio, higherIsBetter: false, description: 'Price to trailing earnings; negative for loss-makers.' },
+    forward_pe: { label: 'Forward P/E', ...ratio, higherIsBetter: false, description: 'Price to expected earnings; negative for expected losses.' },
+    shares_outstanding: { label: 'Shares Outstanding', ...shares, higherIsBetter: false, description: 'Issued shares; fewer means less dilution.' },
+  }),
+
+  ...defineMetrics('capital_structure', {
+    existing_shares: { label: 'Existing Shares', ...shares, higherIsBetter: false, description: 'Current shares outstanding; fewer means more concentrated ownership.' },
+    fully_diluted_shares: { label: 'Fully Diluted Shares', ...shares, higherIsBetter: false, description: 'Shares including options and warrants; future dilution.' },
+    in_the_money_options: { label: 'In-the-Money Options', ...shares, higherIsBetter: false, description: 'Options currently worth exercising; dilution risk.' },
+    options_revenue: { label: 'Options Revenue', ...money, higherIsBetter: true, description: 'Cash the company would receive if in-the-money options were exercised.' },
+  }),
+
+  ...defineMetrics('mineral_estimates', {
+    reserves_total_aueq_moz: { label: 'Reserves (Moz AuEq)', ...moz, higherIsBetter: true, description: 'Gold-equivalent proven & probable reserves; asset base.' },
+    measured_indicated_total_aueq_moz: { label: 'M&I (Moz AuEq)', ...moz, higherIsBetter: true, description: 'Measured & indicated resources; near-term potential.' },
+    resources_total_aueq_moz: { label: 'Total Resources (Moz AuEq)', ...moz, higherIsBetter: true, description: 'All resources including inferred; scale.' },
+    potential_total_aueq_moz: { label: 'Potential (Moz AuEq)', ...moz, higherIsBetter: true, description: 'Exploration potential beyond resources; upside.' },
+    mineable_total_aueq_moz: { label: 'Mineable (Moz AuEq)', ...moz, higherIsBetter: true, description: 'Ounces considered economically mineable.' },
+    reserves_precious_aueq_moz: { label: 'Precious Reserves (Moz)', ...moz, higherIsBetter: true, description: 'Precious-metal reserves in gold equivalent.' },
+    measured_indicated_precious_aueq_moz: { label: 'Precious M&I (Moz)', ...moz, higherIsBetter: true, description: 'Precious-metal measured & indicated resources.' },
+    resources_precious_aueq_moz: { label: 'Precious Resources (Moz)', ...moz, higherIsBetter: true, description: 'Precious-metal total resources.' },
+  }),
+
+  ...defineMetrics('valuation_metrics', {
+    ev_per_resource_oz_all: { label: 'EV / Resource oz', ...perOunce, higherIsBetter: false, description: 'Enterprise value per resource ounce; lower suggests undervaluation.' },
+    ev_per_reserve_oz_all: { label: 'EV / Reserve oz', ...perOunce, higherIsBetter: false, description: 'Enterprise value per reserve ounce.' },
+    ev_per_mi_oz_all: { label: 'EV / M&I oz', ...perOunce, higherIsBetter: false, description: 'Enterprise value per measured & indicated ounce.' },
+    ev_per_mineable_oz_all: { label: 'EV / Mineable oz', ...perOunce, higherIsBetter: false, description: 'Enterprise value per mineable ounce.' },
+    mkt_cap_per_resource_oz_all: { label: 'Mkt Cap / Resource oz', shortLabel: 'Mkt Cap / Res Oz', ...perOunce, higherIsBetter: false, description: 'Market cap per resource ounce.' },
+    mkt_cap_per_reserve_oz_all: { label: 'Mkt Cap / Reserve oz', ...perOunce, higherIsBetter: false, description: 'Market cap per reserve ounce.' },
+    mkt_cap_per_mi_oz_all: { label: 'Mkt Cap / M&I oz', ...perOunce, higherIsBetter: false, description: 'Market cap per measured & indicated ounce.' },
+    mkt_cap_per_mineable_oz_all: { label: 'Mkt Cap / Mineable oz', ...perOunce, higherIsBetter: false, description: 'Market cap per mineable ounce.' },
+    ev_per_resource_oz_precious: { label: 'EV / Precious Resource oz', ...perOunce, higherIsBetter: false, description: 'Enterprise value per precious-metal resource ounce.' },
+    ev_per_reserve_oz_precious: { label: 'EV / Precious Reserve oz', ...perOunce, higherIsBetter: false, description: 'Enterprise value per precious-metal reserve ounce.' },
+    mkt_cap_per_resource_oz_precious: { label: 'Mkt Cap / Precious Resource oz', ...perOunce, higherIsBetter: false, description: 'Market cap per precious-metal resource ounce.' },
+    mkt_cap_per_reserve_oz_precious: { label: 'Mkt Cap / Precious Reserve oz', ...perOunce, higherIsBetter: false, description: 'Market cap per precious-metal reserve ounce.' },
+    ev_per_production_oz: { label: 'EV / Production oz', ...perOunce, higherIsBetter: false, description: 'Enterprise value per ounce of current annual production.' },
+    mkt_cap_per_production_oz: { label: 'Mkt Cap / Production oz', ...perOunce, higherIsBetter: false, description: 'Market cap per ounce of current annual production.' },
+  }),
+
+  ...defineMetrics('production', {
+    current_production_total_aueq_koz: { label: 'Production (koz AuEq)', ...koz, higherIsBetter: true, description: 'Current annual production in gold equivalent; output.' },
+    future_production_total_aueq_koz: { label: 'Future Production (koz AuEq)', ...koz, higherIsBetter: true, description: 'Projected annual production; growth.' },
+    current_production_precious_aueq_koz: { label: 'Precious Production (koz)', ...koz, higherIsBetter: true, description: 'Current precious-metal production.' },
+    current_production_non_precious_aueq_koz: { label: 'Non-Precious Production (koz)', ...koz, higherIsBetter: true, description: 'Current non-precious production in gold equivalent.' },
+    reserve_life_years: { label: 'Reserve Life', unit: 'years', format: 'years', higherIsBetter: true, description: 'Years of reserves at current production; longevity.' },
+  }),
+
+  ...defineMetrics('costs', {
+    aisc_last_year: { label: 'AISC (Last Yr)', ...perOunce, higherIsBetter: false, description: 'All-in sustaining cost per ounce, last year.' },
+    aisc_last_quarter: { label: 'AISC (Last Qtr)', ...perOunce, higherIsBetter: false, description: 'All-in sustaining cost per ounce, last quarter.' },
+    aisc_future: { label: 'AISC (Future)', ...perOunce, higherIsBetter: false, description: 'Expected all-in sustaining cost per ounce.' },
+    aic_last_year: { label: 'AIC (Last Yr)', ...perOunce, higherIsBetter: false, description: 'All-in cost per ounce (AISC plus growth capital), last year.' },
+    tco_future: { label: 'Total Cash Cost (Future)', ...perOunce, higherIsBetter: false, description: 'Expected total cash cost per ounce.' },
+    construction_costs: { label: 'Construction Costs', ...money, higherIsBetter: false, description: 'Project construction capital; capital efficiency.' },
+  }),
+
+  // Computed from stock_prices in the stock's own currency (src/lib/price-performance.ts)
+  ...defineMetrics('price_performance', {
+    return_1w: { label: '1W Return', ...percent, higherIsBetter: true, description: 'Share price change over the last week.', requires: 'prices going back at least 1 week' },
+    return_1m: { label: '1M Return', ...percent, higherIsBetter: true, description: 'Share price change over the last month.', requires: 'prices going back at least 1 month' },
+    return_3m: { label: '3M Return', ...percent, higherIsBetter: true, description: 'Share price change over the last three months.', requires: 'prices going back at least 3 months' },
+    return_ytd: { label: 'YTD Return', ...percent, higherIsBetter: true, description: 'Share price change since the last close of the previous year.', requires: 'a close from the last week of the previous year' },
+    return_1y: { label: '1Y Return', ...percent, higherIsBetter: true, description: 'Share price change over the last year; momentum.', requires: 'prices going back at least 1 year (or a stored 1-year change)' },
+    volatility_1y: { label: 'Volatility (1Y)', ...percent, higherIsBetter: false, description: 'Annualized standard deviation of daily returns over the last year; price risk.', requires: 'a full year of daily prices' },
+    max_drawdown_1y: { label: 'Max Drawdown (1Y)', ...percent, higherIsBetter: false, description: 'Largest fall from a peak over the last year; downside risk.', requires: 'a full year of daily prices' },
+    from_52w_high: { label: 'From 52W High', ...percent, higherIsBetter: true, description: 'Last price vs. the 52-week high; 0% is at the high.', requires: 'a full year of daily prices' },
+    from_52w_low: { label: 'From 52W Low', ...percent, higherIsBetter: true, description: 'Last price vs. the 52-week low; 0% is at the low.', requires: 'a full year of daily prices' },
+  }),
+];
+
+const METRICS_BY_KEY = new Map(METRICS.map((metric) => [metric.key, metric]));
+const METRICS_BY_PATH = new Map(METRICS.map((metric) => [metric.path, metric]));
+
+export function getMetricByKey(key: string): MetricConfig | undefined {
+  return METRICS_BY_KEY.get(key);
+}
+
+export function getMetricByPath(path: string): MetricConfig | undefined {
+  return METRICS_BY_PATH.get(path);
+}
+
+export function getMetricValue(company: CompanyData, metric: MetricConfig): number | null {
+  const value = getFieldValue(company, metric.path);
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// Scoring input: the value oriented so that higher is always better
+export function getScoringValue(company: CompanyData, metric: MetricConfig): number | null {
+  const value = getMetricValue(company, metric);
+  return value === null ? null : metric.higherIsBetter ? value : -value;
+}
+
+export function directionArrow(metric: MetricConfig): string {
+  return metric.higherIsBetter ? '↑' : '↓';
+}
+
+// Tooltip text: description, unit and direction
+export function describeMetric(metric: MetricConfig): string {
+  const direction = metric.higherIsBetter ? 'Higher is better' : 'Lower is better';
+  const requires = metric.requires ? ` Blank without ${metric.requires}.` : '';
+  return `${metric.label} (${metric.unit}). ${metric.description}${requires} ${direction} ${directionArrow(metric)}`;
+}
+
+// Axis / selector options grouped like the catalog, e.g. "Debt ↓"; the value is the metric path
+export function getMetricOptions(metrics: MetricConfig[] = METRICS) {
+  return METRIC_GROUPS.map(({ group, label }) => ({
+    group,
+    label,
+    options: metrics
+      .filter((metric) => metric.group === group)
+      .map((metric) => ({ value: metric.path, label: `${metric.label} ${directionArrow(metric)}`, description: describeMetric(metric) })),
+  })).filter(({ options }) => options.length > 0);
+}
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+
+// Display a value in the metric's format; currency is the reporting currency code
+export function formatMetricValue(value: number | null | undefined, format: MetricFormat, currency: string): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '-';
+  switch (format) {
+    case 'currency':
+      return formatCurrency(value, currency);
+    case 'currency_per_oz':
+      return formatCurrency(value, currency, Math.abs(value) < 100 ? 2 : 0);
+    case 'ratio':
+      return `${formatNumber(value, 2)}x`;
+    case 'percent':
+      return `${formatNumber(value, 1)}%`;
+    case 'moz':
+      return formatNumber(value, 2);
+    case 'koz':
+      return formatNumber(value, 0);
+    case 'shares':
+      return compactNumber.format(value);
+    case 'years':
+      return formatNumber(value, 1);
+    case 'number':
+      return formatNumber(value, 2);
+  }
+}
@@ -0,0 +1,60 @@
+// src/lib/percentiles.ts
+// Percentile and rank of a value within a set (the rows currently in the table),
+// used for shading cells and for the percentile/rank display modes.
+
+export type Distribution = {
+  count: number; // Non-null values
+  // Percent rank 0..1: share of the other values below this one (ties count half)
+  percentile: (value: number) => number;
+  // 1 = best; with higherIsBetter the largest value ranks first
+  rank: (value: number, higherIsBetter: boolean) => number;
+};
+
+// First index whose value is >= target (or > target with `after`)
+function bisect(sorted: number[], target: number, after = false): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < target || (after && sorted[mid] === target)) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+export function buildDistribution(values: (number | null | undefined)[]): Distribution {
+  const sorted = values.filter((v): v is number => typeof v === 'number' && Number.isFinite(v)).sort((a, b) => a - b);
+  const count = sorted.length;
+
+  return {
+    count,
+    percentile(value) {
+      if (count < 2) return 0.5;
+      const below = bisect(sorted, value);
+      const ties = bisect(sorted, value, true) - below;
+      return (below + (ties - 1) / 2) / (count - 1);
+    },
+    rank(value, higherIsBetter) {
+      // Values strictly better than this one, plus one; ties share the rank
+      return 1 + (higherIsBetter ? count - bisect(sorted, value, true) : bisect(sorted, value));
+    },
+  };
+}
+
+// Percentile oriented so 1 is always best
+export function betterPercentile(percentile: number, higherIsBetter: boolean): number {
+  return higherIsBetter ? percentile : 1 - percentile;
+}
+
+// Red (worst) through transparent (median) to green (best)
+export function percentileColor(better: number): string {
+  const strength = Math.min(1, Math.abs(better - 0.5) * 2);
+  const hue = better >= 0.5 ? 142 : 0;
+  return `hsla(${hue}, 70%, 45%, ${(strength * 0.35).toFixed(3)})`;
+}
+
+export function formatPercentile(percentile: number): string {
+  const n = Math.round(percentile * 100);
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
@@ -0,0 +1,118 @@
+// src/lib/price-performance.ts
+// Returns, volatility, drawdown and 52-week range computed from each company's
+// stock_prices history (the stored change_1yr_percent is mostly empty). The results sit
+// on CompanyData.price_performance, where the catalog's Price Performance metrics read them.
+// Everything is in the stock's own quote currency, so exchange rates play no part.
+import type { CompanyData, PricePerformance, StockPrice } from '@/types';
+import { daysBefore, dailyPrices, monthsBefore, PricePoint } from '@/lib/stock-prices';
+
+// Numeric members of PricePerformance, for the query layer and the catalog
+export const PRICE_PERFORMANCE_FIELDS = [
+  'return_1w',
+  'return_1m',
+  'return_3m',
+  'return_ytd',
+  'return_1y',
+  'volatility_1y',
+  'max_drawdown_1y',
+  'from_52w_high',
+  'from_52w_low',
+] as const satisfies readonly (keyof PricePerformance)[];
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+// Fewer daily returns than this are too few for a meaningful volatility
+const MIN_VOLATILITY_RETURNS = 10;
+
+// A return needs a price at most this many days before its start date; an older one
+// would stretch, say, a 1W return over a gap in the history
+const MAX_BASE_GAP_DAYS = 7;
+
+// The 1-year window figures (volatility, drawdown, 52-week range) need history reaching back
+// to within this many days of a year ago; over a shorter span they'd pass for annual figures
+const MAX_WINDOW_GAP_DAYS = 21;
+
+// Last point on or before `date`, provided it isn't more than MAX_BASE_GAP_DAYS older
+function closeAt(points: PricePoint[], date: string): PricePoint | null {
+  const floor = daysBefore(date, MAX_BASE_GAP_DAYS);
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].date <= date) return points[i].date >= floor ? points[i] : null;
+  }
+  return null;
+}
+
+const percentChange = (from: number, to: number) => (to / from - 1) * 100;
+
+// Annualized standard deviation of daily log returns, in percent
+function volatility(points: PricePoint[]): number | null {
+  const returns = points.slice(1).map((point, i) => Math.log(point.value / points[i].value));
+  if (returns.length < MIN_VOLATILITY_RETURNS) return null;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * TRADING_DAYS_PER_YEAR) * 100;
+}
+
+// Largest peak-to-trough fall, in percent (0 when the price never fell)
+function maxDrawdown(points: PricePoint[]): number {
+  let peak = -Infinity;
+  let drawdown = 0;
+  for (const { value } of points) {
+    peak = Math.max(peak, value);
+    drawdown = Math.max(drawdown, (peak - value) / peak);
+  }
+  return drawdown * 100;
+}
+
+// One company's figures from its prices, using only prices up to asOf (ISO timestamp) when given.
+// The 1-year window figures are null unless the history covers (nearly) the whole 52 weeks.
+export function computePricePerformance(prices: StockPrice[], asOf?: string | null): PricePerformance | null {
+  const limit = asOf ? asOf.slice(0, 10) : null;
+  const daily = dailyPrices(
+    prices.filter((price) => price.price_value !== null && price.price_value > 0 && (!limit || price.price_date.slice(0, 10) <= limit))
+  );
+  const last = daily.at(-1);
+  if (!last) return null;
+
+  // Keep to the latest quote currency: a switch of currency would read as a price move
+  const points = daily
+    .filter((price) => price.price_currency === last.price_currency)
+    .map((price) => ({ date: price.price_date.slice(0, 10), value: price.price_value! }));
+  const end = points.at(-1)!;
+  const returnSince = (date: string) => {
+    const base = closeAt(points, date);
+    return base ? percentChange(base.value, end.value) : null;
+  };
+
+  const yearAgo = monthsBefore(end.date, 12);
+  const window = points.filter(({ date }) => date >= yearAgo);
+  const values = window.map(({ value }) => value);
+  const fullYear = daysBefore(points[0].date, MAX_WINDOW_GAP_DAYS) <= yearAgo;
+
+  return {
+    price_date: end.date,
+    price_currency: last.price_currency,
+    return_1w: returnSince(daysBefore(end.date, 7)),
+    return_1m: returnSince(monthsBefore(end.date, 1)),
+    return_3m: returnSince(monthsBefore(end.date, 3)),
+    return_ytd: returnSince(`${Number(end.date.slice(0, 4)) - 1}-12-31`),
+    return_1y: returnSince(yearAgo) ?? last.change_1yr_percent,
+    volatility_1y: fullYear ? volatility(window) : null,
+    max_drawdown_1y: fullYear ? maxDrawdown(window) : null,
+    from_52w_high: fullYear ? percentChange(Math.max(...values), end.value) : null,
+    from_52w_low: fullYear ? percentChange(Math.min(...values), end.value) : null,
+  };
+}
+
+// Attach price_performance to every company; prices may hold other companies' rows too
+export function applyPricePerformance(companies: CompanyData[], prices: StockPrice[], asOf?: string | null): CompanyData[] {
+  const byCompany = new Map<number, StockPrice[]>();
+  for (const price of prices) {
+    const rows = byCompany.get(price.company_id);
+    if (rows) rows.push(price);
+    else byCompany.set(price.company_id, [price]);
+  }
+  return companies.map((company) => ({
+    ...company,
+    price_performance: computePricePerformance(byCompany.get(company.company_id) ?? [], asOf),
+  }));
+}
@@ -0,0 +1,87 @@
+// src/lib/price-store.ts
+// Client-side cache of stock_prices rows per company, shared by the table sparklines and the
+// price charts so each series is fetched once per page load. Companies requested in the same
+// tick (e.g. every row the virtualizer just rendered) are loaded with one /api/stock-prices call
+// per BATCH_SIZE ids. Components read it through usePriceEntry / usePriceEntries.
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import type { StockPrice } from '@/types';
+
+export type PriceEntry =
+  | { status: 'loading' }
+  | { status: 'ready'; prices: StockPrice[] }
+  | { status: 'error'; message: string };
+
+// Must not exceed MAX_COMPANIES in src/app/api/stock-prices/route.ts
+const BATCH_SIZE = 100;
+
+const entries = new Map<number, PriceEntry>();
+const listeners = new Set<() => void>();
+const queued = new Set<number>();
+let version = 0; // Bumped on every change; snapshot for hooks that read several entries
+
+function emit() {
+  version++;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+async function loadBatch(ids: number[]) {
+  try {
+    const response = await fetch(`/api/stock-prices?companies=${ids.join(',')}`);
+    if (!response.ok) throw new Error(`Price request failed (${response.status})`);
+    const { data }: { data: StockPrice[] } = await response.json();
+    const byCompany = new Map<number, StockPrice[]>(ids.map((id) => [id, []]));
+    for (const price of data) byCompany.get(price.company_id)?.push(price);
+    byCompany.forEach((prices, id) => entries.set(id, { status: 'ready', prices }));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to load prices';
+    ids.forEach((id) => entries.set(id, { status: 'error', message }));
+  }
+  emit();
+}
+
+function flush() {
+  const ids = [...queued];
+  queued.clear();
+  for (let i = 0; i < ids.length; i += BATCH_SIZE) loadBatch(ids.slice(i, i + BATCH_SIZE));
+}
+
+// Start loading any of these companies not already cached or on the way. A failed load
+// isn't cached: the next component to ask for it tries again.
+export function requestPrices(companyIds: number[]) {
+  const missing = companyIds.filter((id) => {
+    const status = entries.get(id)?.status;
+    return status !== 'ready' && status !== 'loading';
+  });
+  if (missing.length === 0) return;
+  if (queued.size === 0) setTimeout(flush, 0);
+  for (const id of missing) {
+    entries.set(id, { status: 'loading' });
+    queued.add(id);
+  }
+  emit();
+}
+
+// One company's prices; loads them on first use. Undefined until requested (and on the server).
+export function usePriceEntry(companyId: number): PriceEntry | undefined {
+  useEffect(() => requestPrices([companyId]), [companyId]);
+  return useSyncExternalStore(subscribe, () => entries.get(companyId), () => undefined);
+}
+
+// Several companies' prices at once (the list may change between renders). The map is a new
+// object only when the ids or the store change, so it can sit in dependency arrays.
+export function usePriceEntries(companyIds: number[]): Map<number, PriceEntry> {
+  const key = companyIds.join(',');
+  useEffect(() => requestPrices(key ? key.split(',').map(Number) : []), [key]);
+  const current = useSyncExternalStore(subscribe, () => version, () => 0);
+  return useMemo(() => {
+    const ids = key ? key.split(',').map(Number) : [];
+    return new Map(ids.flatMap((id) => (entries.has(id) ? [[id, entries.get(id)!] as const] : [])));
+    // current is the store version: a change means entries may have changed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, current]);
+}
@@ -0,0 +1,83 @@
+// src/lib/stock-prices.ts
+// Daily share price series for the price charts, built from stock_prices rows.
+// The source scrapes the same day several times, so each date keeps its most recently
+// updated row. Everything here is pure and runs on the client as well as the server.
+import type { StockPrice } from '@/types';
+import { normalizeStockPrices, RateTable } from '@/lib/currency';
+
+export type PricePoint = {
+  date: string; // YYYY-MM-DD
+  value: number;
+};
+
+export type PriceSeries = {
+  companyId: number;
+  currency: string; // Currency of every point
+  points: PricePoint[]; // Oldest first
+  unconverted: number; // Prices left out for a missing currency code or no exchange rate to `currency`
+};
+
+// Range presets, counted back from the last date shown; null = everything on file
+export const PRICE_RANGES = [
+  { id: '1M', months: 1 },
+  { id: '3M', months: 3 },
+  { id: '6M', months: 6 },
+  { id: '1Y', months: 12 },
+  { id: 'Max', months: null },
+] as const;
+
+export type PriceRange = (typeof PRICE_RANGES)[number]['id'];
+
+// One row per date (latest last_updated wins), oldest first
+export function dailyPrices(prices: StockPrice[]): StockPrice[] {
+  const byDate = new Map<string, StockPrice>();
+  for (const price of prices) {
+    const date = price.price_date.slice(0, 10);
+    const seen = byDate.get(date);
+    if (!seen || (price.last_updated ?? '') >= (seen.last_updated ?? '')) byDate.set(date, price);
+  }
+  return [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, price]) => price);
+}
+
+// A company's daily closes in `currency`; missing prices are dropped
+export function buildPriceSeries(prices: StockPrice[], companyId: number, currency: string, rates: RateTable): PriceSeries {
+  const daily = dailyPrices(prices.filter((price) => price.company_id === companyId && price.price_value !== null));
+  const converted = normalizeStockPrices(daily, currency, rates);
+  const points = converted
+    .filter((price) => price.price_value !== null)
+    .map((price) => ({ date: price.price_date.slice(0, 10), value: price.price_value! }));
+  return { companyId, currency, points, unconverted: converted.length - points.length };
+}
+
+// Calendar arithmetic on YYYY-MM-DD dates
+export function monthsBefore(date: string, months: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  const day = result.getUTCDate();
+  result.setUTCMonth(result.getUTCMonth() - months);
+  if (result.getUTCDate() !== day) result.setUTCDate(0); // Mar 31 - 1M = Feb 28, not Mar 3
+  return result.toISOString().slice(0, 10);
+}
+
+export function daysBefore(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() - days);
+  return result.toISOString().slice(0, 10);
+}
+
+// First date inside `range` when the chart ends on `end` (YYYY-MM-DD); null = no lower bound
+export function rangeStart(range: PriceRange, end: string): string | null {
+  const months = PRICE_RANGES.find(({ id }) => id === range)?.months ?? null;
+  return months === null ? null : monthsBefore(end, months);
+}
+
+// Points between start and end inclusive (either bound may be open)
+export function slicePoints(points: PricePoint[], start: string | null, end: string | null): PricePoint[] {
+  return points.filter(({ date }) => (start === null || date >= start) && (end === null || date <= end));
+}
+
+// Express a series relative to its first point (= 100), so peers at different prices compare
+export function rebase(points: PricePoint[]): PricePoint[] {
+  const base = points[0]?.value;
+  if (!base) return [];
+  return points.map(({ date, value }) => ({ date, value: (value / base) * 100 }));
+}
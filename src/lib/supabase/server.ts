@@ -0,0 +1,12 @@
+// src/lib/supabase/server.ts
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+export function createClient() {
+  // Server-side client for public reads (route handlers, server components, scripts).
+  // No session handling needed, so the plain supabase-js client is enough.
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    { auth: { persistSession: false } }
+  )
+}
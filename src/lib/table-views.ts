@@ -0,0 +1,186 @@
+// src/lib/table-views.ts
+// Companies table state <-> URL query string, and saved views. A link reproduces the
+// table: the currency plus whatever differs from the defaults, as readable parameters:
+//
+//   ?currency=USD                                          (always, so figures match)
+//   &sort=-financials.market_cap_value,company_name        (same format as /api/companies)
+//   &q=gold                                                (company name search)
+//   &screen=status = "producer" AND costs.aisc_last_year < 1400
+//   &range=financials.market_cap_value:100000000::x        (id:min:max, x = exclude missing)
+//   &facet=exchange:TSX|TSXV                               (id:values, optional :x)
+//   &cols=company_name,tsx_code,financials.cash_value      (visible columns, in order)
+//   &widths=company_name:300
+//   &pin=company_name,tsx_code|financials.market_cap_value (pinned left|right)
+//
+// Other parameters on the page (asOf) are left alone.
+import type { ColumnFilterValue, SavedView, TableViewState } from '@/types';
+import { REPORTING_CURRENCIES, ReportingCurrency } from '@/lib/currency';
+
+export const VIEW_PARAMS = ['currency', 'sort', 'q', 'screen', 'range', 'facet', 'cols', 'widths', 'pin'] as const;
+
+// Columns that are always shown and stay pinned at the edges
+const FIXED_COLUMNS = ['select', 'actions'];
+const FIXED_PINNING = { left: ['select'], right: ['actions'] };
+
+// The text search box filters this column with a plain string
+const SEARCH_COLUMN = 'company_name';
+
+export function createViewState(columnVisibility: Record<string, boolean>): TableViewState {
+  return { sorting: [], columnFilters: [], globalFilter: '', columnVisibility, columnOrder: [], columnSizing: {}, columnPinning: FIXED_PINNING };
+}
+
+// Visible columns in display order, without the fixed select/actions columns
+export function visibleColumnOrder(state: TableViewState, columnIds: string[]): string[] {
+  const ordered = [...state.columnOrder.filter((id) => columnIds.includes(id)), ...columnIds.filter((id) => !state.columnOrder.includes(id))];
+  return ordered.filter((id) => !FIXED_COLUMNS.includes(id) && state.columnVisibility[id] !== false);
+}
+
+const formatBound = (value: number | null) => (value === null ? '' : String(value));
+
+function encodeFilter(id: string, filter: ColumnFilterValue): [string, string] {
+  const missing = filter.excludeMissing ? ':x' : '';
+  if (filter.kind === 'range') return ['range', `${id}:${formatBound(filter.min)}:${formatBound(filter.max)}${missing}`];
+  return ['facet', `${id}:${filter.values.map(encodeURIComponent).join('|')}${missing}`];
+}
+
+// Write the view state into params (replacing earlier view params), skipping defaults.
+// columnIds is every column in definition order; defaults is the state of a fresh table.
+export function writeViewParams(
+  params: URLSearchParams,
+  state: TableViewState,
+  currency: string,
+  columnIds: string[],
+  defaults: TableViewState
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  VIEW_PARAMS.forEach((name) => next.delete(name));
+
+  next.set('currency', currency);
+  if (state.sorting.length > 0) next.set('sort', state.sorting.map(({ id, desc }) => `${desc ? '-' : ''}${id}`).join(','));
+  for (const { id, value } of state.columnFilters) {
+    if (typeof value === 'string') {
+      if (id === SEARCH_COLUMN && value) next.set('q', value);
+    } else if (value && typeof value === 'object') {
+      next.append(...encodeFilter(id, value as ColumnFilterValue));
+    }
+  }
+  if (state.globalFilter) next.set('screen', state.globalFilter);
+
+  const cols = visibleColumnOrder(state, columnIds).join(',');
+  if (cols !== visibleColumnOrder(defaults, columnIds).join(',')) next.set('cols', cols);
+
+  const widths = Object.entries(state.columnSizing).map(([id, width]) => `${id}:${Math.round(width)}`);
+  if (widths.length > 0) next.set('widths', widths.join(','));
+
+  // User pins only; select/actions are pinned by every table
+  const [left, right] = [state.columnPinning.left, state.columnPinning.right].map((ids) =>
+    ids.filter((id) => !FIXED_COLUMNS.includes(id)).join(',')
+  );
+  if (left || right) next.set('pin', right ? `${left}|${right}` : left);
+  return next;
+}
+
+function parseBound(text: string | undefined): number | null {
+  if (!text) return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Read whatever view state the params carry, on top of the defaults. Malformed pieces
+// are skipped rather than failing the page; column ids are checked by the table itself.
+export function readViewParams(
+  params: URLSearchParams,
+  columnIds: string[],
+  defaults: TableViewState
+): { state: TableViewState; currency: ReportingCurrency | null } {
+  const state: TableViewState = { ...defaults, columnFilters: [], sorting: [] };
+
+  const requested = params.get('currency')?.toUpperCase();
+  const currency = REPORTING_CURRENCIES.find((code) => code === requested) ?? null;
+
+  state.sorting = (params.get('sort') ?? '')
+    .split(',')
+    .filter(Boolean)
+    .map((part) => ({ id: part.replace(/^-/, ''), desc: part.startsWith('-') }));
+
+  const q = params.get('q');
+  if (q) state.columnFilters.push({ id: SEARCH_COLUMN, value: q });
+
+  for (const entry of params.getAll('range')) {
+    const [id, min, max, flag] = entry.split(':');
+    if (!id) continue;
+    const value: ColumnFilterValue = { kind: 'range', min: parseBound(min), max: parseBound(max), excludeMissing: flag === 'x' };
+    state.columnFilters.push({ id, value });
+  }
+  for (const entry of params.getAll('facet')) {
+    const [id, values = '', flag] = entry.split(':');
+    if (!id) continue;
+    const value: ColumnFilterValue = {
+      kind: 'facet',
+      values: values.split('|').filter(Boolean).map((v) => {
+        try {
+          return decodeURIComponent(v);
+        } catch {
+          return v;
+        }
+      }),
+      excludeMissing: flag === 'x',
+    };
+    state.columnFilters.push({ id, value });
+  }
+
+  state.globalFilter = params.get('screen') ?? '';
+
+  const cols = params.get('cols');
+  if (cols !== null) {
+    // Listed columns are shown in that order; every other hideable column is hidden.
+    // Ids not known yet (calculated columns still loading) keep their place in the order.
+    const listed = cols.split(',').filter(Boolean);
+    state.columnVisibility = Object.fromEntries(
+      columnIds.filter((id) => !FIXED_COLUMNS.includes(id)).map((id) => [id, listed.includes(id)])
+    );
+    state.columnOrder = ['select', ...listed];
+  }
+
+  state.columnSizing = Object.fromEntries(
+    (params.get('widths') ?? '')
+      .split(',')
+      .map((part) => {
+        const colon = part.lastIndexOf(':');
+        return [part.slice(0, colon), Number(part.slice(colon + 1))] as const;
+      })
+      .filter(([id, width]) => id && Number.isFinite(width) && width > 0)
+  );
+
+  const [left = '', right = ''] = (params.get('pin') ?? '').split('|');
+  const pinned = (ids: string) => ids.split(',').filter((id) => id && !FIXED_COLUMNS.includes(id));
+  state.columnPinning = { left: ['select', ...pinned(left)], right: [...pinned(right), 'actions'] };
+
+  return { state, currency };
+}
+
+// Saved views from localStorage, dropping anything malformed. Views saved before
+// pinning existed get the fixed pins.
+export function parseStoredViews(json: string | null): SavedView[] {
+  if (!json) return [];
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter(
+        (view): view is SavedView =>
+          typeof view?.name === 'string' &&
+          typeof view.currency === 'string' &&
+          typeof view.savedAt === 'string' &&
+          Array.isArray(view.state?.sorting) &&
+          Array.isArray(view.state.columnFilters) &&
+          Array.isArray(view.state.columnOrder) &&
+          typeof view.state.globalFilter === 'string' &&
+          typeof view.state.columnVisibility === 'object' &&
+          typeof view.state.columnSizing === 'object'
+      )
+      .map((view) => ({ ...view, state: { ...view.state, columnPinning: view.state.columnPinning ?? FIXED_PINNING } }));
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,327 @@
+// src/lib/validation.ts
+// Runtime validation for rows coming from Supabase or the exported CSVs.
+// Each table has a field spec (kept in sync with src/types via TableSchema),
+// validateRow coerces what it safely can ("12.5" -> 12.5, "" -> null) and
+// reports everything else as a per-field issue instead of guessing.
+// A bad optional field is nulled (and reported); a bad required field drops the row.
+import type { TableName, TableRowTypes } from '@/types';
+
+export type FieldKind =
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'currency' // 3-letter ISO code, e.g. CAD
+  | 'timestamp' // 2025-03-27T05:34:35.644Z or 2025-03-27 01:32:56
+  | 'date' // 2025-02-10
+  | 'json';
+
+export type FieldSpec = {
+  kind: FieldKind;
+  required?: boolean; // null/empty is an error when true
+};
+
+// Every column of the row type must have a spec, and nothing else
+export type TableSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+export type FieldIssue = {
+  table: TableName;
+  rowId: number | string | null; // Primary key if we could read it
+  field: string;
+  value: unknown;
+  message: string;
+  // 'nulled': optional field set to null, rest of the row kept
+  // 'dropped': a required field failed, the whole row was discarded
+  action: 'nulled' | 'dropped';
+};
+
+// value is null when the row was dropped; issues lists every bad field either way
+export type RowValidationResult<T> = {
+  value: T | null;
+  issues: FieldIssue[];
+};
+
+// --- Field spec shorthands ---
+const id: FieldSpec = { kind: 'integer', required: true };
+const num: FieldSpec = { kind: 'number' };
+const str: FieldSpec = { kind: 'string' };
+const cur: FieldSpec = { kind: 'currency' };
+const ts: FieldSpec = { kind: 'timestamp' };
+
+// --- Table schemas (one per CSV / Supabase table) ---
+export const tableSchemas: { [K in TableName]: TableSchema<TableRowTypes[K]> } = {
+  companies: {
+    company_id: id,
+    tsx_code: { kind: 'string', required: true },
+    company_name: { kind: 'string', required: true },
+    name_alt: str,
+    status: str,
+    headquarters: str,
+    minerals_of_interest: str,
+    percent_gold: num,
+    percent_silver: num,
+    description: str,
+    last_updated: ts,
+  },
+  financials: {
+    financial_id: id,
+    company_id: id,
+    cash_value: num,
+    cash_currency: cur,
+    cash_date: ts,
+    investments_json: { kind: 'json' },
+    hedgebook: str,
+    liabilities: num,
+    liabilities_currency: cur,
+    other_financial_assets: num,
+    other_financial_assets_currency: cur,
+    market_cap_value: num,
+    market_cap_currency: cur,
+    enterprise_value_value: num,
+    enterprise_value_currency: cur,
+    net_financial_assets: num,
+    net_financial_assets_currency: cur,
+    trailing_pe: num,
+    forward_pe: num,
+    peg_ratio: num,
+    price_to_sales: num,
+    price_to_book: num,
+    enterprise_to_revenue: num,
+    enterprise_to_ebitda: num,
+    revenue_value: num,
+    revenue_currency: cur,
+    cost_of_revenue: num,
+    gross_profit: num,
+    operating_expense: num,
+    operating_income: num,
+    net_income_value: num,
+    net_income_currency: cur,
+    ebitda: num,
+    debt_value: num,
+    debt_currency: cur,
+    last_updated: ts,
+    data_source: str,
+    shares_outstanding: num,
+    free_cash_flow: num,
+  },
+  capital_structure: {
+    capital_id: id,
+    company_id: id,
+    existing_shares: num,
+    fully_diluted_shares: num,
+    in_the_money_options: num,
+    options_revenue: num,
+    options_revenue_currency: cur,
+    last_updated: ts,
+  },
+  costs: {
+    cost_id: id,
+    company_id: id,
+    construction_costs: num,
+    construction_costs_currency: cur,
+    aisc_last_quarter: num,
+    aisc_last_quarter_currency: cur,
+    aisc_last_year: num,
+    aisc_last_year_currency: cur,
+    aisc_future: num,
+    aisc_future_currency: cur,
+    aic_last_quarter: num,
+    aic_last_quarter_currency: cur,
+    aic_last_year: num,
+    aic_last_year_currency: cur,
+    tco_current: num,
+    tco_current_currency: cur,
+    tco_future: num,
+    tco_future_currency: cur,
+    last_updated: ts,
+  },
+  mineral_estimates: {
+    estimate_id: id,
+    company_id: id,
+    reserves_precious_aueq_moz: num,
+    measured_indicated_precious_aueq_moz: num,
+    resources_precious_aueq_moz: num,
+    potential_precious_aueq_moz: num,
+    mineable_precious_aueq_moz: num,
+    reserves_non_precious_aueq_moz: num,
+    measured_indicated_non_precious_aueq_moz: num,
+    resources_non_precious_aueq_moz: num,
+    potential_non_precious_aueq_moz: num,
+    mineable_non_precious_aueq_moz: num,
+    reserves_total_aueq_moz: num,
+    measured_indicated_total_aueq_moz: num,
+    resources_total_aueq_moz: num,
+    potential_total_aueq_moz: num,
+    mineable_total_aueq_moz: num,
+    last_updated: ts,
+  },
+  production: {
+    production_id: id,
+    company_id: id,
+    current_production_precious_aueq_koz: num,
+    current_production_non_precious_aueq_koz: num,
+    current_production_total_aueq_koz: num,
+    future_production_total_aueq_koz: num,
+    reserve_life_years: num,
+    last_updated: ts,
+  },
+  valuation_metrics: {
+    valuation_id: id,
+    company_id: id,
+    mkt_cap_per_reserve_oz_precious: num,
+    mkt_cap_per_mi_oz_precious: num,
+    mkt_cap_per_resource_oz_precious: num,
+    mkt_cap_per_mineable_oz_precious: num,
+    mkt_cap_per_reserve_oz_all: num,
+    mkt_cap_per_mi_oz_all: num,
+    mkt_cap_per_resource_oz_all: num,
+    mkt_cap_per_mineable_oz_all: num,
+    ev_per_reserve_oz_precious: num,
+    ev_per_mi_oz_precious: num,
+    ev_per_resource_oz_precious: num,
+    ev_per_mineable_oz_precious: num,
+    ev_per_reserve_oz_all: num,
+    ev_per_mi_oz_all: num,
+    ev_per_resource_oz_all: num,
+    ev_per_mineable_oz_all: num,
+    mkt_cap_per_production_oz: num,
+    ev_per_production_oz: num,
+    last_updated: ts,
+  },
+  stock_prices: {
+    price_id: id,
+    company_id: id,
+    price_date: { kind: 'date', required: true },
+    price_value: num,
+    price_currency: cur,
+    change_1yr_percent: num,
+    last_updated: ts,
+  },
+  company_urls: {
+    url_id: id,
+    company_id: id,
+    url_type: str,
+    url: { kind: 'string', required: true },
+    last_validated: ts,
+  },
+  exchange_rates: {
+    rate_id: id,
+    from_currency: { kind: 'currency', required: true },
+    to_currency: { kind: 'currency', required: true },
+    rate: { kind: 'number', required: true },
+    fetch_date: { kind: 'timestamp', required: true },
+  },
+};
+
+// Primary key column of each table (first column in the CSVs)
+export const primaryKeys: { [K in TableName]: keyof TableRowTypes[K] & string } = {
+  companies: 'company_id',
+  financials: 'financial_id',
+  capital_structure: 'capital_id',
+  costs: 'cost_id',
+  mineral_estimates: 'estimate_id',
+  production: 'production_id',
+  valuation_metrics: 'valuation_id',
+  stock_prices: 'price_id',
+  company_urls: 'url_id',
+  exchange_rates: 'rate_id',
+};
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+// Coerce a single value. Returns { value } or { error } describing what was wrong.
+function coerceField(raw: unknown, spec: FieldSpec): { value: unknown } | { error: string } {
+  // CSV gives '' for missing values, Supabase gives null
+  if (raw === null || raw === undefined || (typeof raw === 'string' && raw.trim() === '')) {
+    return spec.required ? { error: 'is required but missing' } : { value: null };
+  }
+
+  switch (spec.kind) {
+    case 'integer':
+    case 'number': {
+      const n = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw.trim()) : NaN;
+      if (!Number.isFinite(n)) return { error: `expected a number, got ${JSON.stringify(raw)}` };
+      if (spec.kind === 'integer' && !Number.isInteger(n)) return { error: `expected an integer, got ${JSON.stringify(raw)}` };
+      return { value: n };
+    }
+    case 'string':
+      if (typeof raw !== 'string') return { error: `expected text, got ${typeof raw}` };
+      return { value: raw };
+    case 'currency': {
+      if (typeof raw !== 'string') return { error: `expected a currency code, got ${typeof raw}` };
+      const code = raw.trim().toUpperCase();
+      if (!CURRENCY_PATTERN.test(code)) return { error: `expected a 3-letter currency code, got ${JSON.stringify(raw)}` };
+      return { value: code };
+    }
+    case 'timestamp':
+    case 'date': {
+      if (typeof raw !== 'string') return { error: `expected a ${spec.kind}, got ${typeof raw}` };
+      const text = raw.trim();
+      const pattern = spec.kind === 'date' ? DATE_PATTERN : TIMESTAMP_PATTERN;
+      if (!pattern.test(text) || isNaN(Date.parse(text))) {
+        return { error: `expected a ${spec.kind}, got ${JSON.stringify(raw)}` };
+      }
+      return { value: text };
+    }
+    case 'json':
+      if (typeof raw !== 'string') return { value: raw }; // Already parsed (Supabase jsonb)
+      try {
+        return { value: JSON.parse(raw) };
+      } catch {
+        return { error: `expected JSON, got ${JSON.stringify(raw.slice(0, 40))}` };
+      }
+  }
+}
+
+// Validate one raw row against its table schema.
+// Unknown extra columns are ignored; missing columns count as null.
+export function validateRow<K extends TableName>(table: K, raw: unknown): RowValidationResult<TableRowTypes[K]> {
+  const schema = tableSchemas[table] as Record<string, FieldSpec>;
+  const pk = primaryKeys[table];
+
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { value: null, issues: [{ table, rowId: null, field: '*', value: raw, message: 'row is not an object', action: 'dropped' }] };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const rowId = typeof source[pk] === 'number' || typeof source[pk] === 'string' ? (source[pk] as number | string) : null;
+  const value: Record<string, unknown> = {};
+  const issues: FieldIssue[] = [];
+  let dropped = false;
+
+  for (const [field, spec] of Object.entries(schema)) {
+    const result = coerceField(source[field], spec);
+    if ('error' in result) {
+      issues.push({ table, rowId, field, value: source[field], message: result.error, action: spec.required ? 'dropped' : 'nulled' });
+      dropped ||= !!spec.required;
+      value[field] = null;
+    } else {
+      value[field] = result.value;
+    }
+  }
+
+  // Once one required field fails, every issue on the row describes a dropped row
+  if (dropped) issues.forEach((issue) => { issue.action = 'dropped'; });
+
+  return { value: dropped ? null : (value as TableRowTypes[K]), issues };
+}
+
+// Validate many rows, keeping the usable ones and collecting every issue
+export function validateRows<K extends TableName>(table: K, rows: unknown[]): { rows: TableRowTypes[K][]; issues: FieldIssue[] } {
+  const valid: TableRowTypes[K][] = [];
+  const issues: FieldIssue[] = [];
+  for (const raw of rows) {
+    const result = validateRow(table, raw);
+    if (result.value) valid.push(result.value);
+    issues.push(...result.issues);
+  }
+  return { rows: valid, issues };
+}
+
+// Human readable one-liner, e.g. "financials #6 market_cap_value: expected a number, got "abc" (set to null)"
+export function formatIssue(issue: FieldIssue): string {
+  const row = issue.rowId !== null ? ` #${issue.rowId}` : '';
+  const action = issue.action === 'dropped' ? 'row dropped' : 'set to null';
+  return `${issue.table}${row} ${issue.field}: ${issue.message} (${action})`;
+}
@@ -1,52 +1,384 @@
 // src/types/index.ts
 
+// One type per table in exported_csvs/ (and the matching Supabase tables).
+// Field names mirror the column names exactly so rows can be validated 1:1.
+// Timestamps are kept as the ISO-ish strings the source gives us.
+
+export type Company = {
+  company_id: number;
+  tsx_code: string;
+  company_name: string;
+  name_alt: string | null;
+  status: string | null;
+  headquarters: string | null;
+  minerals_of_interest: string | null;
+  percent_gold: number | null;
+  percent_silver: number | null;
+  description: string | null;
+  last_updated: string | null;
+};
+
+// Just enough to name a company, for pickers that list every company
+export type CompanyRef = Pick<Company, 'company_id' | 'company_name' | 'tsx_code'>;
+
 export type CompanyFinancials = {
+  financial_id: number;
+  company_id: number;
+  cash_value: number | null;
+  cash_currency: string | null;
+  cash_date: string | null;
+  investments_json: unknown;
+  hedgebook: string | null;
+  liabilities: number | null;
+  liabilities_currency: string | null;
+  other_financial_assets: number | null;
+  other_financial_assets_currency: string | null;
   market_cap_value: number | null;
   market_cap_currency: string | null;
-  cash_value: number | null;
   enterprise_value_value: number | null;
-  // Add ALL other financials fields you select in page.tsx
+  enterprise_value_currency: string | null;
+  net_financial_assets: number | null;
+  net_financial_assets_currency: string | null;
+  trailing_pe: number | null;
+  forward_pe: number | null;
+  peg_ratio: number | null;
+  price_to_sales: number | null;
+  price_to_book: number | null;
+  enterprise_to_revenue: number | null;
+  enterprise_to_ebitda: number | null;
+  revenue_value: number | null;
+  revenue_currency: string | null;
+  cost_of_revenue: number | null;
+  gross_profit: number | null;
+  operating_expense: number | null;
+  operating_income: number | null;
+  net_income_value: number | null;
+  net_income_currency: string | null;
+  ebitda: number | null;
+  debt_value: number | null;
+  debt_currency: string | null;
+  last_updated: string | null;
+  data_source: string | null;
+  shares_outstanding: number | null;
+  free_cash_flow: number | null;
+};
+
+export type CapitalStructure = {
+  capital_id: number;
+  company_id: number;
+  existing_shares: number | null;
+  fully_diluted_shares: number | null;
+  in_the_money_options: number | null;
+  options_revenue: number | null;
+  options_revenue_currency: string | null;
+  last_updated: string | null;
+};
+
+export type CompanyCosts = {
+  cost_id: number;
+  company_id: number;
+  construction_costs: number | null;
+  construction_costs_currency: string | null;
+  aisc_last_quarter: number | null;
+  aisc_last_quarter_currency: string | null;
+  aisc_last_year: number | null;
+  aisc_last_year_currency: string | null;
+  aisc_future: number | null;
+  aisc_future_currency: string | null;
+  aic_last_quarter: number | null;
+  aic_last_quarter_currency: string | null;
+  aic_last_year: number | null;
+  aic_last_year_currency: string | null;
+  tco_current: number | null;
+  tco_current_currency: string | null;
+  tco_future: number | null;
+  tco_future_currency: string | null;
+  last_updated: string | null;
 };
 
 export type CompanyMineralEstimates = {
+  estimate_id: number;
+  company_id: number;
+  reserves_precious_aueq_moz: number | null;
+  measured_indicated_precious_aueq_moz: number | null;
+  resources_precious_aueq_moz: number | null;
+  potential_precious_aueq_moz: number | null;
+  mineable_precious_aueq_moz: number | null;
+  reserves_non_precious_aueq_moz: number | null;
+  measured_indicated_non_precious_aueq_moz: number | null;
+  resources_non_precious_aueq_moz: number | null;
+  potential_non_precious_aueq_moz: number | null;
+  mineable_non_precious_aueq_moz: number | null;
   reserves_total_aueq_moz: number | null;
+  measured_indicated_total_aueq_moz: number | null;
   resources_total_aueq_moz: number | null;
-  // Add ALL other estimates fields you select in page.tsx
+  potential_total_aueq_moz: number | null;
+  mineable_total_aueq_moz: number | null;
+  last_updated: string | null;
 };
 
 export type CompanyProduction = {
+  production_id: number;
+  company_id: number;
+  current_production_precious_aueq_koz: number | null;
+  current_production_non_precious_aueq_koz: number | null;
   current_production_total_aueq_koz: number | null;
-  // Add ALL other production fields you select in page.tsx
-}
-
-export type CompanyCosts = {
-   aisc_last_year: number | null;
-   aisc_last_year_currency: string | null;
-   // Add ALL other costs fields you select in page.tsx
-}
+  future_production_total_aueq_koz: number | null;
+  reserve_life_years: number | null;
+  last_updated: string | null;
+};
 
 export type ValuationMetrics = {
-    mkt_cap_per_resource_oz_all: number | null;
-    ev_per_resource_oz_all: number | null;
-    // Add ALL other valuation fields you select in page.tsx
-}
+  valuation_id: number;
+  company_id: number;
+  mkt_cap_per_reserve_oz_precious: number | null;
+  mkt_cap_per_mi_oz_precious: number | null;
+  mkt_cap_per_resource_oz_precious: number | null;
+  mkt_cap_per_mineable_oz_precious: number | null;
+  mkt_cap_per_reserve_oz_all: number | null;
+  mkt_cap_per_mi_oz_all: number | null;
+  mkt_cap_per_resource_oz_all: number | null;
+  mkt_cap_per_mineable_oz_all: number | null;
+  ev_per_reserve_oz_precious: number | null;
+  ev_per_mi_oz_precious: number | null;
+  ev_per_resource_oz_precious: number | null;
+  ev_per_mineable_oz_precious: number | null;
+  ev_per_reserve_oz_all: number | null;
+  ev_per_mi_oz_all: number | null;
+  ev_per_resource_oz_all: number | null;
+  ev_per_mineable_oz_all: number | null;
+  mkt_cap_per_production_oz: number | null;
+  ev_per_production_oz: number | null;
+  last_updated: string | null;
+};
 
+export type StockPrice = {
+  price_id: number;
+  company_id: number;
+  price_date: string;
+  price_value: number | null;
+  price_currency: string | null;
+  change_1yr_percent: number | null;
+  last_updated: string | null;
+};
 
-// Main Company Type combining data
-export type CompanyData = {
+export type CompanyUrl = {
+  url_id: number;
   company_id: number;
-  tsx_code: string;
-  company_name: string;
-  status: string | null;
-  headquarters: string | null;
-  // Add ALL other company fields you select in page.tsx
+  url_type: string | null;
+  url: string;
+  last_validated: string | null;
+};
+
+export type ExchangeRate = {
+  rate_id: number;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  fetch_date: string;
+};
+
+// How a monetary value was brought into the reporting currency (see src/lib/currency.ts)
+export type CurrencyConversion = {
+  from: string | null; // null = the value has no currency code, so it can't be converted
+  to: string;
+  rate: number | null; // null = no rate available (or no source currency), the converted value is null
+  rate_date: string | null; // fetch_date of the exchange_rates row used
+  via?: string; // Pivot currency for cross rates, e.g. AUD -> USD -> CAD
+};
+
+// Data quality finding from a consistency rule (see src/lib/data-quality.ts)
+export type QualitySeverity = 'error' | 'warning' | 'info';
+
+export type QualityIssue = {
+  ruleId: string;
+  table: TableName;
+  severity: QualitySeverity;
+  message: string;
+  fields: string[]; // Paths involved, e.g. 'financials.enterprise_value_value'
+};
+
+// A stored valuation ratio next to the one recomputed from current figures
+export type ValuationCheck = {
+  stored: number | null;
+  derived: number | null;
+};
+
+// Related tables shown as a single record per company
+export type CompanyRelation =
+  | 'financials'
+  | 'capital_structure'
+  | 'mineral_estimates'
+  | 'production'
+  | 'costs'
+  | 'valuation_metrics';
+
+// Set when a company has more than one record for a relation
+export type RecordVersionInfo = {
+  versions: number; // Records on file for this company
+  newer: number; // Records after the one shown (only non-zero for as-of views)
+  selected_updated: string | null; // last_updated of the record shown
+};
+
+// Maps each table name to its row type
+export type TableRowTypes = {
+  companies: Company;
+  financials: CompanyFinancials;
+  capital_structure: CapitalStructure;
+  costs: CompanyCosts;
+  mineral_estimates: CompanyMineralEstimates;
+  production: CompanyProduction;
+  valuation_metrics: ValuationMetrics;
+  stock_prices: StockPrice;
+  company_urls: CompanyUrl;
+  exchange_rates: ExchangeRate;
+};
+
+export type TableName = keyof TableRowTypes;
+
 
-  // Ensure these match the keys used in the .select() string in page.tsx
+// Performance figures computed from a company's stock_prices history (see src/lib/price-performance.ts).
+// Percentages; null when the history doesn't reach back far enough.
+export type PricePerformance = {
+  price_date: string; // Date of the last price used (YYYY-MM-DD)
+  price_currency: string | null; // Currency of the prices used
+  return_1w: number | null;
+  return_1m: number | null;
+  return_3m: number | null;
+  return_ytd: number | null; // From the last close of the previous year
+  return_1y: number | null; // Falls back to the stored change_1yr_percent
+  volatility_1y: number | null; // Annualized standard deviation of daily log returns
+  max_drawdown_1y: number | null; // Largest fall from a running peak, as a positive percentage
+  from_52w_high: number | null; // Last price vs. the 52-week high (<= 0)
+  from_52w_low: number | null; // Last price vs. the 52-week low (>= 0)
+};
+
+// Main Company Type combining data
+// One-to-one relations hold a single record (null when the company has none),
+// company_urls keeps every link. Stock prices are loaded separately, they are too big to nest.
+export type CompanyData = Company & {
   financials: CompanyFinancials | null;
+  capital_structure: CapitalStructure | null;
   mineral_estimates: CompanyMineralEstimates | null;
   production: CompanyProduction | null;
   costs: CompanyCosts | null;
   valuation_metrics: ValuationMetrics | null;
+  company_urls: CompanyUrl[];
+
+  // Set once monetary fields are normalized to a reporting currency, keyed by
+  // field path ('financials.cash_value'). Fields already in that currency have no entry.
+  currency_conversions?: Record<string, CurrencyConversion>;
+
+  // Relations where a record was picked from several versions
+  record_versions?: Partial<Record<CompanyRelation, RecordVersionInfo>>;
+
+  // Valuation ratios whose stored value disagrees with the recomputed one,
+  // keyed by path ('valuation_metrics.ev_per_resource_oz_all'). See derived-metrics.ts.
+  valuation_checks?: Record<string, ValuationCheck>;
+
+  // Returns, volatility and drawdown from stock_prices; null when the company has no prices
+  price_performance?: PricePerformance | null;
+
+  // Consistency issues, most severe first; set by the views that run the rules
+  quality_issues?: QualityIssue[];
+
+  // Values of the user's calculated columns, keyed by CalculatedColumn.id (see calculated-columns.ts)
+  calculated?: Record<string, number | null>;
 
   score?: number; // For personalized ranking later
-};
\ No newline at end of file
+};
+
+// --- Table filters (src/lib/filters.ts) ---
+
+// Numeric column: inclusive bounds, null = open-ended
+export type RangeFilterValue = {
+  kind: 'range';
+  min: number | null;
+  max: number | null;
+  excludeMissing: boolean;
+};
+
+// Categorical column: keep rows whose value is one of `values` (empty = any)
+export type FacetFilterValue = {
+  kind: 'facet';
+  values: string[];
+  excludeMissing: boolean;
+};
+
+export type ColumnFilterValue = RangeFilterValue | FacetFilterValue;
+
+// --- Table views (src/lib/table-views.ts) ---
+
+// Everything about how the companies table is laid out and filtered. Shapes match
+// TanStack's SortingState, ColumnFiltersState etc. so they can be passed straight in.
+export type TableViewState = {
+  sorting: { id: string; desc: boolean }[];
+  columnFilters: { id: string; value: unknown }[]; // ColumnFilterValue, or text for company_name
+  globalFilter: string; // Screen expression
+  columnVisibility: Record<string, boolean>;
+  columnOrder: string[];
+  columnSizing: Record<string, number>; // Widths in px, only for resized columns
+  columnPinning: { left: string[]; right: string[] }; // Column ids stuck to each edge, outermost first on the left
+};
+
+// A named preset saved in this browser
+export type SavedView = {
+  name: string;
+  state: TableViewState;
+  currency: string;
+  savedAt: string; // ISO timestamp
+};
+
+// --- Metric catalog (src/lib/metrics.ts) ---
+
+export type MetricGroup =
+  | 'company'
+  | 'financials'
+  | 'capital_structure'
+  | 'mineral_estimates'
+  | 'valuation_metrics'
+  | 'production'
+  | 'costs'
+  | 'price_performance' // Computed from stock_prices
+  | 'calculated'; // User-defined formula columns
+
+// How a value is displayed; 'currency' and 'currency_per_oz' are in the reporting currency
+export type MetricFormat =
+  | 'currency'
+  | 'currency_per_oz'
+  | 'ratio'
+  | 'percent'
+  | 'moz'
+  | 'koz'
+  | 'shares'
+  | 'years'
+  | 'number'; // Plain number, 2 decimals
+
+// How a metric column shows its cells: the value, its percentile or its rank (1 = best)
+export type CellDisplayMode = 'value' | 'percentile' | 'rank';
+
+// Summary of a column over the filtered rows, shown in the table footer
+export type AggregateKind = 'count' | 'sum' | 'mean' | 'median' | 'min' | 'max' | 'weighted_mean';
+
+export type MetricConfig = {
+  key: string; // Unique id, the column name ('market_cap_value')
+  path: string; // Dotted path into CompanyData ('financials.market_cap_value')
+  label: string;
+  shortLabel?: string; // Column header when the label is too long
+  unit: string; // '$', '$/oz', 'Moz', 'koz', '%', 'x', 'shares', 'years'
+  format: MetricFormat;
+  higherIsBetter: boolean;
+  description: string;
+  requires?: string; // What a value needs ('a full year of daily prices'), to explain blank cells
+  group: MetricGroup;
+};
+
+// A formula column defined by the user, stored in localStorage
+export type CalculatedColumn = {
+  id: string; // Slug of the first name it was saved with; the column id is `calculated.<id>`
+  name: string;
+  expression: string; // Numeric expression over CompanyData fields (src/lib/expression.ts)
+  unit: string;
+  format: MetricFormat;
+  higherIsBetter: boolean;
+};
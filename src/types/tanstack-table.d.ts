@@ -0,0 +1,26 @@
+// src/types/tanstack-table.d.ts
+// Extra per-column info our tables read from columnDef.meta
+import '@tanstack/react-table';
+import type { AggregateKind, CellDisplayMode, MetricConfig } from '@/types';
+
+declare module '@tanstack/react-table' {
+  // Type parameters must match the library's declaration even though we don't use them
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    label?: string; // Name in the Columns menu (defaults to a prettified id)
+    metric?: MetricConfig; // Set on columns generated from the metric catalog
+    exportValue?: (row: TData) => string | number | null; // Value written by exports, when not the accessor's
+  }
+
+  // Display state shared with cells through table.options.meta
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface TableMeta<TData extends RowData> {
+    shading?: boolean; // Shade metric cells by percentile within the filtered rows
+    displayModes?: Record<string, CellDisplayMode>; // Per column id; missing = 'value'
+    setDisplayMode?: (columnId: string, mode: CellDisplayMode) => void;
+    aggregates?: Record<string, AggregateKind>; // Footer summary per column id; missing = the metric's default
+    setAggregate?: (columnId: string, kind: AggregateKind) => void;
+    sparklineDays?: number; // Window of the Price Trend column, in days
+    setSparklineDays?: (days: number) => void;
+  }
+}